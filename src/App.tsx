@@ -1,12 +1,70 @@
 import React from 'react';
 import Game from './components/Game';
+import CourseEditor from './components/CourseEditor';
+import type { CourseFile, CourseTest } from './lib/course';
+import type { Replay } from './lib/replay';
 
 function App() {
+  const [replay, setReplay] = React.useState<Replay | null>(null);
+  const [ghostReplay, setGhostReplay] = React.useState<Replay | null>(null);
+  const [isEditing, setIsEditing] = React.useState(false);
+  // The editor's course is kept here, so it's still open after a test run
+  const [editorCourse, setEditorCourse] = React.useState<CourseFile | null>(null);
+  const [courseTest, setCourseTest] = React.useState<CourseTest | null>(null);
+  // Bumped to remount Game when switching to a replay, a ghost race or a course test
+  const [runKey, setRunKey] = React.useState(0);
+
+  const handleWatchReplay = (nextReplay: Replay) => {
+    setReplay(nextReplay);
+    setGhostReplay(null);
+    setCourseTest(null);
+    setRunKey(key => key + 1);
+  };
+
+  const handleRaceGhost = (nextGhost: Replay) => {
+    setReplay(null);
+    setGhostReplay(nextGhost);
+    setCourseTest(null);
+    setRunKey(key => key + 1);
+  };
+
+  const handlePlayTest = (test: CourseTest) => {
+    setReplay(null);
+    setGhostReplay(null);
+    setEditorCourse(test.file);
+    setCourseTest(test);
+    setIsEditing(false);
+    setRunKey(key => key + 1);
+  };
+
+  const handleCloseEditor = () => {
+    setIsEditing(false);
+    setCourseTest(null);
+    setRunKey(key => key + 1);
+  };
+
   return (
     <div className="w-full h-screen bg-gray-900">
-      <Game />
+      {isEditing ? (
+        <CourseEditor
+          initialCourse={editorCourse}
+          onChange={setEditorCourse}
+          onPlayTest={handlePlayTest}
+          onClose={handleCloseEditor}
+        />
+      ) : (
+        <Game
+          key={runKey}
+          replay={replay}
+          ghostReplay={ghostReplay}
+          courseTest={courseTest}
+          onWatchReplay={handleWatchReplay}
+          onRaceGhost={handleRaceGhost}
+          onOpenEditor={() => setIsEditing(true)}
+        />
+      )}
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Check, LogIn, LogOut, Mail, Pencil, UserCheck } from 'lucide-react';
+import { INITIALS_PATTERN, signInWithEmail, signOut, toInitials, updateProfile, useAccount } from '../lib/account';
+import { useLeaderboardService } from '../lib/leaderboard';
+
+// Sign-in and profile controls on the results screen. Hidden when the
+// leaderboard has no server, since accounts live there.
+export default function AccountPanel({ onScoresClaimed }: { onScoresClaimed: () => void }) {
+  const service = useLeaderboardService();
+  const account = useAccount();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [email, setEmail] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [initials, setInitials] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!service.supportsAccounts || account.status === 'unavailable' || account.status === 'loading') {
+    return null;
+  }
+
+  // Runs an action that resolves to an error message or null
+  const run = async (action: () => Promise<string | null>, success: string | null) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    const failure = await action();
+    setIsBusy(false);
+    if (failure) {
+      setError(failure);
+      return false;
+    }
+    setMessage(success);
+    return true;
+  };
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim()) {
+      run(() => signInWithEmail(email.trim()), 'Check your email for a sign-in link.');
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => updateProfile({ display_name: displayName.trim(), initials }), null);
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    setIsBusy(true);
+    setError(null);
+    const result = await service.claimGuestScores();
+    setIsBusy(false);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setMessage(
+      result.claimed === 0
+        ? 'No guest scores from this device to claim.'
+        : `Claimed ${result.claimed} guest ${result.claimed === 1 ? 'score' : 'scores'}.`
+    );
+    onScoresClaimed();
+  };
+
+  const linkClass = 'flex items-center gap-1 text-white/60 hover:text-white transition disabled:opacity-50';
+  const inputClass = 'bg-white/10 text-white border border-white/20 rounded px-2 py-1 w-full';
+
+  return (
+    <div className="mb-4 text-sm text-white">
+      {account.status === 'signed-out' && (
+        isSigningIn ? (
+          <form onSubmit={handleSignIn} className="flex gap-2">
+            <input
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              className={inputClass}
+            />
+            <button type="submit" disabled={isBusy} className="flex items-center gap-1 bg-white/20 px-3 py-1 rounded hover:bg-white/30 transition disabled:opacity-50">
+              <Mail size={14} />
+              Send link
+            </button>
+          </form>
+        ) : (
+          <button onClick={() => setIsSigningIn(true)} className={linkClass}>
+            <LogIn size={14} />
+            Sign in to keep your scores across devices
+          </button>
+        )
+      )}
+
+      {account.status === 'signed-in' && (
+        isEditing ? (
+          <form onSubmit={handleSaveProfile} className="flex gap-2">
+            <input
+              type="text"
+              maxLength={24}
+              placeholder="Display name"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              maxLength={3}
+              placeholder="ABC"
+              value={initials}
+              onChange={e => setInitials(toInitials(e.target.value))}
+              className={`${inputClass} w-16`}
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !displayName.trim() || !INITIALS_PATTERN.test(initials)}
+              title="Save profile"
+              className="bg-white/20 px-3 py-1 rounded hover:bg-white/30 transition disabled:opacity-50"
+            >
+              <Check size={14} />
+            </button>
+          </form>
+        ) : (
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1">
+              <UserCheck size={14} className="text-sky-300" />
+              {account.profile ? `${account.profile.display_name} (${account.profile.initials})` : account.user.email}
+            </span>
+            <span className="flex gap-3">
+              {account.profile && (
+                <button
+                  onClick={() => {
+                    setDisplayName(account.profile!.display_name);
+                    setInitials(account.profile!.initials);
+                    setIsEditing(true);
+                  }}
+                  title="Edit profile"
+                  className={linkClass}
+                >
+                  <Pencil size={14} />
+                </button>
+              )}
+              <button onClick={handleClaim} disabled={isBusy} className={linkClass}>
+                Claim guest scores
+              </button>
+              <button onClick={() => run(signOut, null)} title="Sign out" className={linkClass}>
+                <LogOut size={14} />
+              </button>
+            </span>
+          </div>
+        )
+      )}
+
+      {message && <p className="text-emerald-300 text-xs mt-1">{message}</p>}
+      {error && <p className="text-red-300 text-xs mt-1">{error}</p>}
+    </div>
+  );
+}
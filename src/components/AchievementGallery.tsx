@@ -0,0 +1,43 @@
+import { Award, Lock, X } from 'lucide-react';
+import { ACHIEVEMENTS } from '../lib/achievements';
+import { useUnlockedAchievements } from '../lib/achievementStore';
+
+export default function AchievementGallery({ onClose }: { onClose: () => void }) {
+  const unlocked = useUnlockedAchievements();
+  const unlockedAt = new Map(unlocked.map(a => [a.id, a.unlockedAt]));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-40">
+      <div className="bg-black/50 p-8 rounded-lg max-w-lg w-full backdrop-blur-sm text-white max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-2xl font-bold">Achievements</h2>
+          <button onClick={onClose} title="Close" className="text-white/60 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-white/60 text-sm mb-4">
+          {unlockedAt.size} of {ACHIEVEMENTS.length} unlocked
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map(achievement => {
+            const date = unlockedAt.get(achievement.id);
+            return (
+              <div
+                key={achievement.id}
+                className={`flex gap-3 p-3 rounded ${date ? 'bg-amber-300/10' : 'bg-white/5 text-white/40'}`}
+              >
+                {date ? <Award size={20} className="text-amber-300 shrink-0" /> : <Lock size={20} className="shrink-0" />}
+                <div>
+                  <p className="font-bold text-sm">{achievement.title}</p>
+                  <p className="text-xs text-white/60">{achievement.description}</p>
+                  {date && <p className="text-xs text-white/40 mt-1">{new Date(date).toLocaleDateString()}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
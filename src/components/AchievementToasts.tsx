@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { Award } from 'lucide-react';
+import type { Achievement } from '../lib/achievements';
+
+const TOAST_DURATION_MS = 4000;
+
+// Announces newly unlocked achievements over the Canvas, one after another
+export default function AchievementToasts({
+  achievements,
+  onDismiss,
+}: {
+  achievements: Achievement[];
+  onDismiss: (achievement: Achievement) => void;
+}) {
+  const current = achievements[0];
+
+  useEffect(() => {
+    if (!current) return;
+    const timeout = setTimeout(() => onDismiss(current), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [current, onDismiss]);
+
+  if (!current) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none">
+      <div key={current.id} className="flex items-center gap-3 bg-black/70 text-white px-4 py-2 rounded-lg shadow-lg">
+        <Award size={24} className="text-amber-300" />
+        <div>
+          <p className="text-xs uppercase tracking-wide text-amber-300">Achievement unlocked</p>
+          <p className="font-bold">{current.title}</p>
+          <p className="text-xs text-white/60">{current.description}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,600 @@
+import React, { Suspense, useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { Canvas, type ThreeEvent } from '@react-three/fiber';
+import { MapControls } from '@react-three/drei';
+import * as THREE from 'three';
+import {
+  ArrowLeft,
+  Download,
+  FilePlus,
+  FolderOpen,
+  MousePointer2,
+  Play,
+  Plus,
+  Save,
+  SkipForward,
+  Trash2,
+} from 'lucide-react';
+import { Obstacle, ObstacleCollisionBoxes, SlalomMarkers } from './Game';
+import {
+  COURSE_FORMAT,
+  COURSE_VERSION,
+  CourseFileError,
+  deleteSavedCourse,
+  downloadCourse,
+  loadSavedCourses,
+  OBSTACLE_KINDS,
+  parseCourseFile,
+  placedObstacles,
+  readCourseFile,
+  saveCourse,
+  segmentIndexAt,
+  segmentStarts,
+  type CourseFile,
+  type CourseTest,
+} from '../lib/course';
+import { BOUNDARY_X } from '../lib/movement';
+import type { ObstacleKind } from '../lib/gameEvents';
+
+// --- Course Editor ---
+// Lays out a course file (see course.ts) from above. Obstacles are edited in
+// slope z and sorted back into their segments when the course is saved, so
+// they can be dragged freely from one authored segment to the next.
+
+const SNAP_SIZES = [0, 1, 2, 5, 10]; // 0 turns snapping off
+const DEFAULT_SEGMENT_LENGTH = 200;
+const SELECTED_COLOR = '#facc15';
+const CLICK_TOLERANCE = 4; // Pixels a click can move before it counts as panning the camera
+
+interface EditorObstacle {
+  id: number;
+  type: ObstacleKind;
+  x: number;
+  z: number; // Slope z
+}
+
+interface Draft {
+  name: string;
+  segments: { length: number; procedural: boolean }[];
+  obstacles: EditorObstacle[];
+  file: CourseFile; // Yetis and gates aren't edited here, but are kept from the file
+}
+
+type Tool = 'select' | ObstacleKind;
+
+const NEW_COURSE: CourseFile = {
+  format: COURSE_FORMAT,
+  version: COURSE_VERSION,
+  name: 'New course',
+  segments: [{ length: DEFAULT_SEGMENT_LENGTH * 2, procedural: false, obstacles: [] }],
+  yetis: [],
+  gates: [],
+  finishZ: -DEFAULT_SEGMENT_LENGTH * 2,
+};
+
+let nextObstacleId = 0;
+
+function toDraft(file: CourseFile): Draft {
+  return {
+    name: file.name,
+    segments: file.segments.map(({ length, procedural }) => ({ length, procedural })),
+    obstacles: placedObstacles(file, -Infinity, Infinity).map(({ type, x, z }) => ({ id: nextObstacleId++, type, x, z })),
+    file,
+  };
+}
+
+// Obstacles outside an authored segment have nowhere to go, so they're left out
+function toCourseFile(draft: Draft): CourseFile {
+  const starts = segmentStarts(draft);
+  return {
+    ...draft.file,
+    name: draft.name,
+    segments: draft.segments.map((segment, i) => ({
+      ...segment,
+      obstacles: segment.procedural ? [] : draft.obstacles
+        .filter(obstacle => segmentIndexAt(draft, obstacle.z) === i)
+        .map(({ type, x, z }) => ({ type, x, z: z - starts[i] })),
+    })),
+  };
+}
+
+function isPlaceable(draft: Draft, z: number): boolean {
+  const index = segmentIndexAt(draft, z);
+  return index !== -1 && !draft.segments[index].procedural;
+}
+
+function snap(value: number, size: number): number {
+  return size > 0 ? Math.round(value / size) * size : Math.round(value * 10) / 10;
+}
+
+function describeError(error: unknown): string[] {
+  if (error instanceof CourseFileError) return error.problems;
+  return [error instanceof Error ? error.message : 'Something went wrong'];
+}
+
+// --- Editor Scene ---
+function EditorScene({
+  draft,
+  tool,
+  selectedId,
+  snapSize,
+  controlsRef,
+  onPlace,
+  onSelect,
+  onMove,
+}: {
+  draft: Draft;
+  tool: Tool;
+  selectedId: number | null;
+  snapSize: number;
+  controlsRef: React.RefObject<React.ElementRef<typeof MapControls>>;
+  onPlace: (x: number, z: number) => void;
+  onSelect: (id: number | null) => void;
+  onMove: (id: number, x: number, z: number) => void;
+}) {
+  const dragging = useRef<number | null>(null);
+  const starts = segmentStarts(draft);
+  const courseLength = draft.segments.reduce((total, segment) => total + segment.length, 0);
+  const slopeLength = Math.max(courseLength, -(draft.file.finishZ ?? 0)) + 400;
+
+  // A drag can end anywhere, including off the canvas
+  useEffect(() => {
+    const endDrag = () => {
+      dragging.current = null;
+      if (controlsRef.current) controlsRef.current.enabled = true;
+    };
+    window.addEventListener('pointerup', endDrag);
+    return () => window.removeEventListener('pointerup', endDrag);
+  }, [controlsRef]);
+
+  const groundPoint = (e: ThreeEvent<PointerEvent | MouseEvent>) => ({
+    x: THREE.MathUtils.clamp(snap(e.point.x, snapSize), -BOUNDARY_X, BOUNDARY_X),
+    z: Math.min(0, snap(e.point.z, snapSize)),
+  });
+
+  const handleGroundClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_TOLERANCE) return;
+    if (tool === 'select') {
+      onSelect(null);
+      return;
+    }
+    const { x, z } = groundPoint(e);
+    onPlace(x, z);
+  };
+
+  const handleGroundMove = (e: ThreeEvent<PointerEvent>) => {
+    if (dragging.current === null) return;
+    const { x, z } = groundPoint(e);
+    onMove(dragging.current, x, z);
+  };
+
+  const handleObstacleDown = (e: ThreeEvent<PointerEvent>, id: number) => {
+    if (tool !== 'select') return;
+    e.stopPropagation();
+    onSelect(id);
+    dragging.current = id;
+    // Runs before the controls see the press, so the camera stays put while dragging
+    if (controlsRef.current) controlsRef.current.enabled = false;
+  };
+
+  return (
+    <>
+      <ambientLight intensity={0.8} />
+      <directionalLight position={[20, 60, 20]} intensity={1.2} />
+      <MapControls ref={controlsRef} target={[0, 0, -100]} screenSpacePanning={false} maxPolarAngle={Math.PI / 2.5} />
+
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, -3, -slopeLength / 2 + 100]}
+        onClick={handleGroundClick}
+        onPointerMove={handleGroundMove}
+      >
+        <planeGeometry args={[BOUNDARY_X * 2, slopeLength + 200]} />
+        <meshStandardMaterial color="#ffffff" roughness={0.9} />
+      </mesh>
+
+      {/* Procedural segments are shaded, and a line marks where each segment starts */}
+      {draft.segments.map((segment, i) => (
+        <React.Fragment key={i}>
+          {segment.procedural && (
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.97, starts[i] - segment.length / 2]}>
+              <planeGeometry args={[BOUNDARY_X * 2, segment.length]} />
+              <meshBasicMaterial color="#7dd3fc" transparent opacity={0.35} />
+            </mesh>
+          )}
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.96, starts[i]]}>
+            <planeGeometry args={[BOUNDARY_X * 2, 0.5]} />
+            <meshBasicMaterial color="#334155" />
+          </mesh>
+        </React.Fragment>
+      ))}
+      {draft.file.yetis.map((trigger, i) => (
+        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.96, trigger.z]}>
+          <planeGeometry args={[BOUNDARY_X * 2, 0.5]} />
+          <meshBasicMaterial color="#f97316" />
+        </mesh>
+      ))}
+      <SlalomMarkers course={{ gates: draft.file.gates, finishZ: draft.file.finishZ ?? null }} />
+
+      {draft.obstacles.map(obstacle => {
+        const position = new THREE.Vector3(obstacle.x, 0, obstacle.z);
+        return (
+          <group key={obstacle.id} onPointerDown={e => handleObstacleDown(e, obstacle.id)}>
+            <Obstacle type={obstacle.type} position={position} />
+            <ObstacleCollisionBoxes
+              obstacle={{ type: obstacle.type, position, id: String(obstacle.id) }}
+              color={obstacle.id === selectedId ? SELECTED_COLOR : undefined}
+            />
+          </group>
+        );
+      })}
+    </>
+  );
+}
+// --- End Editor Scene ---
+
+export default function CourseEditor({
+  initialCourse,
+  onChange,
+  onPlayTest,
+  onClose,
+}: {
+  initialCourse: CourseFile | null; // Reopens the course from the last test run
+  onChange: (course: CourseFile) => void;
+  onPlayTest: (test: CourseTest) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(initialCourse ?? NEW_COURSE));
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [snapSize, setSnapSize] = useState(2);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [savedCourses, setSavedCourses] = useState<CourseFile[]>(loadSavedCourses);
+  const controlsRef = useRef<React.ElementRef<typeof MapControls>>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const course = useMemo(() => toCourseFile(draft), [draft]);
+  const selected = draft.obstacles.find(obstacle => obstacle.id === selectedId) ?? null;
+  const stranded = draft.obstacles.filter(obstacle => !isPlaceable(draft, obstacle.z)).length;
+
+  useEffect(() => {
+    onChange(course);
+  }, [course, onChange]);
+
+  const updateDraft = (update: (draft: Draft) => Draft) => {
+    setDraft(update);
+    setNotice(null);
+  };
+
+  const deleteSelected = () => {
+    if (selectedId === null) return;
+    updateDraft(d => ({ ...d, obstacles: d.obstacles.filter(obstacle => obstacle.id !== selectedId) }));
+    setSelectedId(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelected();
+      } else if (e.key === 'Escape') {
+        setTool('select');
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handlePlace = (x: number, z: number) => {
+    if (tool === 'select') return;
+    if (!isPlaceable(draft, z)) {
+      setNotice('Obstacles go in authored segments. Add a segment or turn off procedural here.');
+      return;
+    }
+    const obstacle = { id: nextObstacleId++, type: tool, x, z };
+    updateDraft(d => ({ ...d, obstacles: [...d.obstacles, obstacle] }));
+    setSelectedId(obstacle.id);
+  };
+
+  const handleMove = (id: number, x: number, z: number) => {
+    if (!isPlaceable(draft, z)) return;
+    setDraft(d => ({
+      ...d,
+      obstacles: d.obstacles.map(obstacle => (obstacle.id === id ? { ...obstacle, x, z } : obstacle)),
+    }));
+  };
+
+  const updateSegment = (index: number, change: Partial<Draft['segments'][number]>) => {
+    updateDraft(d => ({
+      ...d,
+      segments: d.segments.map((segment, i) => (i === index ? { ...segment, ...change } : segment)),
+    }));
+  };
+
+  // Checks the course the same way a loaded file is checked
+  const validCourse = (): CourseFile | null => {
+    try {
+      const file = parseCourseFile(course);
+      setProblems([]);
+      return file;
+    } catch (error) {
+      setProblems(describeError(error));
+      return null;
+    }
+  };
+
+  const handlePlay = (fromHere: boolean) => {
+    const file = validCourse();
+    if (!file) return;
+    const viewZ = controlsRef.current?.target.z ?? 0;
+    const startZ = fromHere ? THREE.MathUtils.clamp(Math.round(viewZ), (file.finishZ ?? -Infinity) + 1, 0) : 0;
+    onPlayTest({ file, startZ });
+  };
+
+  const handleSave = () => {
+    const file = validCourse();
+    if (!file) return;
+    setSavedCourses(saveCourse(file));
+    setNotice(`Saved "${file.name}" on this device`);
+  };
+
+  const handleExport = () => {
+    const file = validCourse();
+    if (file) downloadCourse(file);
+  };
+
+  const openCourse = (file: CourseFile) => {
+    setDraft(toDraft(file));
+    setSelectedId(null);
+    setProblems([]);
+    setNotice(null);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openCourse(await readCourseFile(file));
+    } catch (error) {
+      setProblems(describeError(error));
+    }
+  };
+
+  return (
+    <div className="w-full h-screen relative overflow-hidden">
+      <Canvas camera={{ position: [0, 150, -99], fov: 50, far: 5000 }} style={{ background: '#87CEEB' }}>
+        <Suspense fallback={null}>
+          <EditorScene
+            draft={draft}
+            tool={tool}
+            selectedId={selectedId}
+            snapSize={snapSize}
+            controlsRef={controlsRef}
+            onPlace={handlePlace}
+            onSelect={setSelectedId}
+            onMove={handleMove}
+          />
+        </Suspense>
+      </Canvas>
+
+      <div className="absolute top-0 left-0 bottom-0 w-72 overflow-y-auto bg-black/60 text-white p-4 space-y-4 text-sm backdrop-blur-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold">Course editor</h2>
+          <button onClick={onClose} title="Back to the game" className="text-white/70 hover:text-white transition">
+            <ArrowLeft size={18} />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={draft.name}
+          maxLength={40}
+          onChange={e => updateDraft(d => ({ ...d, name: e.target.value }))}
+          className="w-full bg-white/10 border border-white/20 rounded px-2 py-1"
+        />
+
+        <section>
+          <h3 className="text-xs uppercase tracking-wide text-white/60 mb-1">Tools</h3>
+          <div className="grid grid-cols-3 gap-1">
+            <button
+              onClick={() => setTool('select')}
+              className={`flex items-center justify-center gap-1 px-2 py-1 rounded transition ${
+                tool === 'select' ? 'bg-sky-500/40' : 'bg-white/10 hover:bg-white/20'
+              }`}
+            >
+              <MousePointer2 size={14} /> Select
+            </button>
+            {OBSTACLE_KINDS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => setTool(kind)}
+                className={`px-2 py-1 rounded capitalize transition ${
+                  tool === kind ? 'bg-sky-500/40' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                {kind}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between mt-2">
+            <span>Snap</span>
+            <select
+              value={snapSize}
+              onChange={e => setSnapSize(Number(e.target.value))}
+              className="bg-white/10 border border-white/20 rounded px-1"
+            >
+              {SNAP_SIZES.map(size => (
+                <option key={size} value={size} className="text-black">{size === 0 ? 'Off' : `${size}m`}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-white/50 text-xs mt-2">
+            Click the slope to place, drag to move. Delete removes the selection. Drag the view to pan, right-drag to tilt, scroll to zoom.
+          </p>
+        </section>
+
+        {selected && (
+          <section className="flex items-center justify-between bg-white/10 rounded px-2 py-1">
+            <span className="capitalize">
+              {selected.type} <span className="font-mono text-white/60">({selected.x}, {selected.z})</span>
+            </span>
+            <button onClick={deleteSelected} title="Delete" className="text-rose-300 hover:text-rose-200 transition">
+              <Trash2 size={14} />
+            </button>
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-xs uppercase tracking-wide text-white/60 mb-1">Segments</h3>
+          <div className="space-y-1">
+            {draft.segments.map((segment, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="text-white/50 w-4">{i + 1}</span>
+                <input
+                  type="number"
+                  min={10}
+                  step={10}
+                  value={segment.length}
+                  onChange={e => updateSegment(i, { length: Math.max(10, Number(e.target.value) || 0) })}
+                  className="w-20 bg-white/10 border border-white/20 rounded px-1"
+                />
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={segment.procedural}
+                    onChange={e => updateSegment(i, { procedural: e.target.checked })}
+                    className="accent-sky-400"
+                  />
+                  Procedural
+                </label>
+                {draft.segments.length > 1 && (
+                  <button
+                    onClick={() => updateDraft(d => ({ ...d, segments: d.segments.filter((_, j) => j !== i) }))}
+                    title="Remove segment"
+                    className="text-white/50 hover:text-white transition ml-auto"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => updateDraft(d => ({
+              ...d,
+              segments: [...d.segments, { length: DEFAULT_SEGMENT_LENGTH, procedural: false }],
+            }))}
+            className="mt-1 flex items-center gap-1 text-white/70 hover:text-white transition"
+          >
+            <Plus size={14} /> Add segment
+          </button>
+          {stranded > 0 && (
+            <p className="text-amber-200 text-xs mt-1">
+              {stranded} {stranded === 1 ? 'obstacle is' : 'obstacles are'} outside the authored segments and won't be saved
+            </p>
+          )}
+          <div className="flex items-center justify-between mt-2">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draft.file.finishZ !== undefined}
+                onChange={e => updateDraft(d => ({ ...d, file: { ...d.file, finishZ: e.target.checked ? NEW_COURSE.finishZ : undefined } }))}
+                className="accent-sky-400"
+              />
+              Finish line at
+            </label>
+            {draft.file.finishZ !== undefined && (
+              <span>
+                <input
+                  type="number"
+                  min={10}
+                  step={10}
+                  value={-draft.file.finishZ}
+                  onChange={e => updateDraft(d => ({ ...d, file: { ...d.file, finishZ: -Math.max(10, Number(e.target.value) || 0) } }))}
+                  className="w-20 bg-white/10 border border-white/20 rounded px-1"
+                />
+                m
+              </span>
+            )}
+          </div>
+          {draft.file.finishZ === undefined && (
+            <p className="text-white/60 text-xs mt-1">Without a finish line the course is skied as an endless run</p>
+          )}
+        </section>
+
+        {notice && <p className="text-sky-200 text-xs">{notice}</p>}
+        {problems.length > 0 && (
+          <ul className="text-rose-300 text-xs list-disc pl-4 space-y-1">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+
+        <section className="grid grid-cols-2 gap-1">
+          <button
+            onClick={() => handlePlay(true)}
+            title="Start the test run where the view is centred"
+            className="flex items-center justify-center gap-1 bg-sky-500/30 px-2 py-1 rounded hover:bg-sky-500/40 transition"
+          >
+            <SkipForward size={14} /> Play from here
+          </button>
+          <button
+            onClick={() => handlePlay(false)}
+            className="flex items-center justify-center gap-1 bg-sky-500/30 px-2 py-1 rounded hover:bg-sky-500/40 transition"
+          >
+            <Play size={14} /> Play from start
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center justify-center gap-1 bg-white/20 px-2 py-1 rounded hover:bg-white/30 transition"
+          >
+            <Save size={14} /> Save
+          </button>
+          <button
+            onClick={() => openCourse(NEW_COURSE)}
+            className="flex items-center justify-center gap-1 bg-white/20 px-2 py-1 rounded hover:bg-white/30 transition"
+          >
+            <FilePlus size={14} /> New
+          </button>
+          <button
+            onClick={handleExport}
+            className="flex items-center justify-center gap-1 bg-white/20 px-2 py-1 rounded hover:bg-white/30 transition"
+          >
+            <Download size={14} /> Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center justify-center gap-1 bg-white/20 px-2 py-1 rounded hover:bg-white/30 transition"
+          >
+            <FolderOpen size={14} /> Import
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </section>
+
+        {savedCourses.length > 0 && (
+          <section>
+            <h3 className="text-xs uppercase tracking-wide text-white/60 mb-1">Saved courses</h3>
+            <div className="space-y-1">
+              {savedCourses.map(saved => (
+                <div key={saved.name} className="flex items-center justify-between">
+                  <button onClick={() => openCourse(saved)} className="text-left hover:text-sky-200 transition truncate">
+                    {saved.name}
+                  </button>
+                  <button
+                    onClick={() => setSavedCourses(deleteSavedCourse(saved.name))}
+                    title="Delete saved course"
+                    className="text-white/50 hover:text-white transition"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+// --- End Course Editor ---
@@ -1,10 +1,124 @@
-import React, { useEffect, useRef, useState, forwardRef, useMemo } from 'react';
+import React, { useEffect, useRef, useState, forwardRef, useMemo, useReducer, useCallback } from 'react';
 import { Canvas, useFrame, useLoader } from '@react-three/fiber';
-import { PerspectiveCamera, useGLTF, Points } from '@react-three/drei';
+import { PerspectiveCamera, useGLTF, Points, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import nipplejs, { JoystickManager } from 'nipplejs';
+import { ArrowBigDown, ArrowBigLeft, ArrowBigRight, Heart, Hourglass, Magnet, Pause, Shield, SprayCan } from 'lucide-react';
 import { MODEL_URLS } from '../models';
+import { createRng, deriveSeed, formatSeed, generateSeed, parseSeed, RNG_STREAMS, type Rng } from '../lib/random';
+import { formatDailyKey, getDailyKey, getDailySeed, getModeFromUrl, getModeUrl, type GameMode } from '../lib/daily';
+import {
+  BOUNDARY_X,
+  createSkierState,
+  MAX_HEADING,
+  moveSkier,
+  updateSpeed,
+  type SkierState,
+} from '../lib/movement';
+import { computeGhostPath, savePersonalBest, type GhostPath } from '../lib/ghost';
+import {
+  createReplayCursor,
+  isOutdatedReplay,
+  NO_INPUT,
+  quantizeSteer,
+  recordInputChanges,
+  REPLAY_VERSION,
+  SIM_STEP,
+  type InputState,
+  type Replay,
+  type ReplayEvent,
+} from '../lib/replay';
+import { isSimulating, nextGamePhase } from '../lib/gamePhase';
+import { loadSettings, saveSettings, type Settings } from '../lib/settings';
+import { addRunLog, type CrashCause, type RunResult } from '../lib/runLog';
+import type { GameEvent } from '../lib/gameEvents';
+import {
+  awardNearMiss,
+  awardTrick,
+  comboMultiplier,
+  createComboState,
+  COMBO_WINDOW,
+  tickCombo,
+  type ComboState,
+  type SkillAward,
+  type SkillAwardKind,
+} from '../lib/scoring';
+import { createAirState, launch, updateAir, GROUND_Y, HOP_VELOCITY, type AirState } from '../lib/tricks';
+import { isProceduralAt, placedObstacles, type CourseTest } from '../lib/course';
+import {
+  boundsOverlap,
+  checkCollision,
+  getPlayerBounds,
+  nearMissClearance,
+  OBSTACLES,
+  type CollisionBounds,
+  type Obstacle,
+} from '../lib/obstacles';
+import { generateSegment as generateProceduralSegment, SEGMENT_LENGTH, type Pickup, type SegmentLayout } from '../lib/segments';
+import {
+  createYetiState,
+  isDangerous,
+  rollYetiSpawn,
+  spawnYeti,
+  updateYetis,
+  scareYetis,
+  yetiBox,
+  yetiPointer,
+  type Yeti,
+  type YetiPrint,
+  type YetiState,
+} from '../lib/yeti';
+import { playRoar } from '../lib/sound';
+import { createHazardState, hazardBoxes, updateHazards, type Hazard, type HazardBox, type HazardState } from '../lib/hazards';
+import MovingHazard from './Hazard';
+import { isClearedOnRespawn, LIVES, loseLife, RESPAWN_DELAY } from '../lib/lives';
+import {
+  absorbHit,
+  collectPickup,
+  createPowerUpState,
+  isActive,
+  isPowerUp,
+  MAGNET_REACH,
+  POWER_UP_KINDS,
+  POWER_UPS,
+  tickPowerUps,
+  timeScale,
+  type PickupKind,
+  type PowerUpKind,
+  type PowerUpState,
+} from '../lib/pickups';
+import {
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PROFILES,
+  loadDifficulty,
+  sampleCurve,
+  saveDifficulty,
+  type Difficulty,
+  type DifficultyProfile,
+} from '../lib/difficulty';
+import {
+  courseFromFile,
+  createSlalomState,
+  DEFAULT_COURSE_SEED,
+  formatRaceTime,
+  gatePoles,
+  generateSlalomCourse,
+  getSlalomResult,
+  isRaced,
+  MISSED_GATE_PENALTY,
+  updateSlalom,
+  type SlalomCourse,
+  type SlalomResult,
+  type SlalomState,
+} from '../lib/slalom';
+import { createAchievementTracker, getAchievement, type Achievement } from '../lib/achievements';
+import { unlockAchievements } from '../lib/achievementStore';
+import { useAccountId } from '../lib/account';
 import Leaderboard from './Leaderboard';
+import GameMenu from './GameMenu';
+import StatsDashboard from './StatsDashboard';
+import AchievementToasts from './AchievementToasts';
+import AchievementGallery from './AchievementGallery';
 
 // Define CollisionBox component for debugging
 function CollisionBox({ min, max, color }: { min: THREE.Vector3; max: THREE.Vector3; color: string }) {
@@ -29,6 +143,9 @@ function useAnimations(state: 'idle' | 'left' | 'right' | 'crash', onCrashComple
   const [rotation, setRotation] = useState({ x: 0, y: 0, z: 0 });
   const crashRotation = useRef(0);
   const animationFrame = useRef<number>();
+  // Read when the animation ends, so a new callback on every render doesn't start it over
+  const crashComplete = useRef(onCrashComplete);
+  crashComplete.current = onCrashComplete;
 
   useEffect(() => {
     if (state === 'crash') {
@@ -49,8 +166,8 @@ function useAnimations(state: 'idle' | 'left' | 'right' | 'crash', onCrashComple
           animationFrame.current = requestAnimationFrame(animate);
         } else {
           setRotation({ x: Math.PI / 2, y: 0, z: 0 });
-          if (onCrashComplete) {
-            onCrashComplete();
+          if (crashComplete.current) {
+            crashComplete.current();
           }
         }
       };
@@ -75,209 +192,73 @@ function useAnimations(state: 'idle' | 'left' | 'right' | 'crash', onCrashComple
           setRotation({ x: 0, y: 0, z: 0 });
       }
     }
-  }, [state, onCrashComplete]);
+  }, [state]);
 
   return rotation;
 }
 
-const OBSTACLES = {
-  tree: {
-    scale: { x: 5, y: 5, z: 5 },
-    yOffset: 2,
-    collisionRadius: 0.3,
-    collisionHeight: 2,
-    weight: 0.4,
-    color: '#964B00',
-  },
-  rock: {
-    scale: { x: 2, y: 2, z: 2 },
-    yOffset: -1.5,
-    collisionRadius: 1.0,
-    collisionHeight: 1.5,
-    weight: 0.3,
-    color: '#808080',
-  },
-  bump: {
-    scale: { x: 1, y: 1, z: 1 },
-    yOffset: -2.85,
-    collisionRadius: 0.4,
-    collisionHeight: 0.3,
-    weight: 0.2,
-    color: '#ffffff',
-  },
-  pole: {
-    scale: { x: 3.75, y: 3.75, z: 3.75 },
-    yOffset: 1,
-    collisionRadius: 0.3,
-    collisionSegments: [
-      { height: 3, radius: 0.3, yOffset: 0 },
-      { height: 1, radius: 0.3, yOffset: 2.5 },
-    ],
-    weight: 0.1,
-    color: '#808080',
-  },
-} as const;
-
 // --- Define Yeti Properties ---
-const BASE_YETI_SPEED = 55;
-const BASE_YETI_SPAWN_DISTANCE = 40; 
-const BASE_YETI_SPAWN_CHANCE = 0.1; 
-
+// How yetis behave is in lib/yeti.ts; this is how they look and how big they are
 const YETI_STATIC_CONFIG = { // Renamed to hold non-dynamic properties
   scale: { x: 7, y: 7, z: 7 },
   yOffset: 1,
-  collisionWidth: 4, 
-  collisionHeight: 8, 
-  collisionDepth: 2, 
-  boundsX: 60, 
 };
 // --- End Yeti Properties ---
 
-interface Obstacle {
-  type: keyof typeof OBSTACLES;
-  position: THREE.Vector3;
-  id: number;
-}
-
-function checkCollision(playerPosition: THREE.Vector3, obstacle: Obstacle): boolean {
-  const config = OBSTACLES[obstacle.type];
-  const obstaclePosition = obstacle.position;
-
-  const playerWidth = 1.2;
-  const playerDepth = 1.0;
-  const playerHeight = 6.0;
-
-  const playerMin = new THREE.Vector3(
-    playerPosition.x - playerWidth / 2,
-    playerPosition.y - 3, // Changed from -4 to -3
-    playerPosition.z - playerDepth / 2
-  );
-  const playerMax = new THREE.Vector3(
-    playerPosition.x + playerWidth / 2,
-    playerPosition.y + playerHeight - 2, // Changed from -4 to -2
-    playerPosition.z + playerDepth / 2
-  );
-
-  // Check if object has collisionSegments (for poles)
-  if ('collisionSegments' in config) {
-    // For poles with segments
-    for (const segment of config.collisionSegments) {
-      const obstacleRadius = segment.radius * config.scale.x;
-      const obstacleHeight = segment.height * config.scale.y;
-      const obstacleMin = new THREE.Vector3(
-        obstaclePosition.x - obstacleRadius,
-        obstaclePosition.y + segment.yOffset,
-        obstaclePosition.z - obstacleRadius
-      );
-      const obstacleMax = new THREE.Vector3(
-        obstaclePosition.x + obstacleRadius,
-        obstaclePosition.y + segment.yOffset + obstacleHeight,
-        obstaclePosition.z + obstacleRadius
-      );
-
-      if (
-        playerMax.x >= obstacleMin.x &&
-        playerMin.x <= obstacleMax.x &&
-        playerMax.y >= obstacleMin.y &&
-        playerMin.y <= obstacleMax.y &&
-        playerMax.z >= obstacleMin.z &&
-        playerMin.z <= obstacleMax.z
-      ) {
-        return true;
-      }
-    }
-    return false;
-  } 
-  
-  // For regular obstacles with collisionHeight
-  const obstacleRadius = config.collisionRadius * config.scale.x;
-  // Type safe access to collisionHeight with a fallback
-  const obstacleHeight = ('collisionHeight' in config ? config.collisionHeight : 2) * config.scale.y;
-  
-  const obstacleMin = new THREE.Vector3(
-    obstaclePosition.x - obstacleRadius,
-    obstaclePosition.y,
-    obstaclePosition.z - obstacleRadius
-  );
-  const obstacleMax = new THREE.Vector3(
-    obstaclePosition.x + obstacleRadius,
-    obstaclePosition.y + obstacleHeight,
-    obstaclePosition.z + obstacleRadius
-  );
+// --- Pickups ---
+// What they do is in lib/pickups.ts; this is how they look and how close the
+// skier has to come to collect one
+const PICKUP_RADIUS = 1;
+const PICKUP_HEIGHT = 3;
+
+const PICKUP_COLORS: Record<PickupKind, string> = {
+  coin: '#facc15',
+  flag: '#ef4444',
+  shield: '#38bdf8',
+  'slow-motion': '#a78bfa',
+  magnet: '#f43f5e',
+  repellent: '#4ade80',
+};
 
-  return (
-    playerMax.x >= obstacleMin.x &&
-    playerMin.x <= obstacleMax.x &&
-    playerMax.y >= obstacleMin.y &&
-    playerMin.y <= obstacleMax.y &&
-    playerMax.z >= obstacleMin.z &&
-    playerMin.z <= obstacleMax.z
-  );
+// `reach` widens the box, for the coin magnet
+function getPickupBounds(pickup: Pickup, reach: number): CollisionBounds {
+  const radius = PICKUP_RADIUS + reach;
+  return {
+    min: new THREE.Vector3(pickup.position.x - radius, pickup.position.y, pickup.position.z - radius),
+    max: new THREE.Vector3(pickup.position.x + radius, pickup.position.y + PICKUP_HEIGHT, pickup.position.z + radius),
+  };
 }
+// --- End Pickups ---
 
-// --- Add Yeti Collision Check Function ---
-function checkYetiCollision(
-  playerPosition: THREE.Vector3,
-  yetiPosition: THREE.Vector3 | null
-): boolean {
-  if (!yetiPosition) return false;
-
-  // Player collision box dimensions (match the ones used in GameScene)
-  const playerWidth = 1.2;
-  const playerDepth = 1.0;
-  const playerHeight = 6.0;
-  const playerBaseOffsetY = -3; // Base Y offset used in checkCollision logic
-  const playerCollisionMinY = playerPosition.y + playerBaseOffsetY;
-  const playerCollisionMaxY = playerPosition.y + playerHeight - 2;
-
-  const playerMin = new THREE.Vector3(
-    playerPosition.x - playerWidth / 2,
-    playerCollisionMinY,
-    playerPosition.z - playerDepth / 2
-  );
-  const playerMax = new THREE.Vector3(
-    playerPosition.x + playerWidth / 2,
-    playerCollisionMaxY,
-    playerPosition.z + playerDepth / 2
-  );
-
-  // Yeti collision box dimensions - Use YETI_STATIC_CONFIG
-  const yetiWidth = YETI_STATIC_CONFIG.collisionWidth; // Use static config
-  const yetiHeight = YETI_STATIC_CONFIG.collisionHeight; // Use static config
-  const yetiDepth = YETI_STATIC_CONFIG.collisionDepth; // Use static config
-  const yetiBaseY = YETI_STATIC_CONFIG.yOffset; // Use static config
+function checkPickup(playerPosition: THREE.Vector3, pickup: Pickup, reach: number): boolean {
+  return boundsOverlap(getPlayerBounds(playerPosition), getPickupBounds(pickup, reach));
+}
 
-  const yetiMin = new THREE.Vector3(
-    yetiPosition.x - yetiWidth / 2,
-    yetiPosition.y + yetiBaseY,
-    yetiPosition.z - yetiDepth / 2
-  );
-  const yetiMax = new THREE.Vector3(
-    yetiPosition.x + yetiWidth / 2,
-    yetiPosition.y + yetiBaseY + yetiHeight,
-    yetiPosition.z + yetiDepth / 2
-  );
+// --- Moving Collision Check ---
+// Moving hazards and yetis bring their own boxes (see lib/hazards.ts)
+function hazardBounds(box: HazardBox): CollisionBounds {
+  return {
+    min: new THREE.Vector3(box.x - box.width / 2, box.y, box.z - box.depth / 2),
+    max: new THREE.Vector3(box.x + box.width / 2, box.y + box.height, box.z + box.depth / 2),
+  };
+}
 
-  // Simple AABB collision check
-  return (
-    playerMax.x >= yetiMin.x &&
-    playerMin.x <= yetiMax.x &&
-    playerMax.y >= yetiMin.y &&
-    playerMin.y <= yetiMax.y &&
-    playerMax.z >= yetiMin.z &&
-    playerMin.z <= yetiMax.z
-  );
+function checkBoxCollision(playerPosition: THREE.Vector3, boxes: HazardBox[]): boolean {
+  const player = getPlayerBounds(playerPosition);
+  return boxes.some(box => boundsOverlap(player, hazardBounds(box)));
 }
-// --- End Yeti Collision Check ---
+// --- End Moving Collision Check ---
 
-function Snow() {
+function Snow({ seed }: { seed: number }) {
   const count = 5000;
+  const rng = useRef<Rng>(createRng(deriveSeed(seed, RNG_STREAMS.snow)));
   const [positions] = useState(() => {
+    const random = rng.current;
     const positions = new Float32Array(count * 3);
     for (let i = 0; i < count; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 100;
-      positions[i * 3 + 1] = Math.random() * 50;
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 100;
+      positions[i * 3] = (random() - 0.5) * 100;
+      positions[i * 3 + 1] = random() * 50;
+      positions[i * 3 + 2] = (random() - 0.5) * 100;
     }
     return positions;
   });
@@ -296,9 +277,9 @@ function Snow() {
 
       // Reset snow particles that go out of bounds
       if (positions[i3 + 1] < -5) {
-        positions[i3] = (Math.random() - 0.5) * 100;
+        positions[i3] = (rng.current() - 0.5) * 100;
         positions[i3 + 1] = 50;
-        positions[i3 + 2] = (Math.random() - 0.5) * 100;
+        positions[i3 + 2] = (rng.current() - 0.5) * 100;
       }
 
       if (Math.abs(positions[i3]) > 50) {
@@ -326,7 +307,7 @@ function Snow() {
   );
 }
 
-function Obstacle({ type, position }: { type: keyof typeof OBSTACLES; position: THREE.Vector3 }) {
+export function Obstacle({ type, position }: { type: keyof typeof OBSTACLES; position: THREE.Vector3 }) {
   const config = OBSTACLES[type];
 
   // Use the original position directly, no need to raise it
@@ -367,12 +348,15 @@ function Obstacle({ type, position }: { type: keyof typeof OBSTACLES; position:
       // Use adjustedPosition.y directly with the new yOffset
       position={[adjustedPosition.x, adjustedPosition.y + config.yOffset, adjustedPosition.z]}
       scale={[config.scale.x, config.scale.y, config.scale.z]}
+      rotation={[type === 'ramp' ? -0.35 : 0, 0, 0]}
       castShadow
       receiveShadow
     >
       {type === 'bump' && <sphereGeometry args={[0.5, 8, 8]} />}
+      {/* A wedge rising towards the downhill end */}
+      {type === 'ramp' && <boxGeometry args={[4, 0.4, 5]} />}
       <meshStandardMaterial
-        color={type === 'bump' ? '#ffffff' : '#cc0000'}
+        color={type === 'bump' ? '#ffffff' : type === 'ramp' ? '#bae6fd' : '#cc0000'}
         roughness={0.8}
         metalness={0}
       />
@@ -415,18 +399,86 @@ function Yeti({ position }: { position: THREE.Vector3 }) {
 }
 // --- End Yeti Component ---
 
+// --- Yeti Footprints ---
+// Pressed into the snow along a yeti's path, including while it's still out of sight
+function YetiPrints({ prints }: { prints: YetiPrint[] }) {
+  return (
+    <>
+      {prints.map(print => (
+        <mesh
+          key={`${print.x},${print.z}`}
+          position={[print.x, -2.95, print.z]}
+          rotation={[-Math.PI / 2, 0, print.angle]}
+          scale={[0.5, 0.9, 1]}
+        >
+          <circleGeometry args={[1, 12]} />
+          <meshBasicMaterial color="#94a3b8" transparent opacity={0.6} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+// --- End Yeti Footprints ---
+
+// Spins where it floats. Coins are discs, flags a pennant on a pole, power-ups gems.
+function PickupItem({ pickup }: { pickup: Pickup }) {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((_, delta) => {
+    if (ref.current) ref.current.rotation.y += delta * 2;
+  });
+  const color = PICKUP_COLORS[pickup.kind];
+  return (
+    <group ref={ref} position={[pickup.position.x, -1.5, pickup.position.z]}>
+      {pickup.kind === 'coin' && (
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[0.8, 0.8, 0.15, 16]} />
+          <meshStandardMaterial color={color} metalness={0.6} roughness={0.3} />
+        </mesh>
+      )}
+      {pickup.kind === 'flag' && (
+        <>
+          <mesh position={[0, 0.5, 0]}>
+            <cylinderGeometry args={[0.05, 0.05, 3, 6]} />
+            <meshStandardMaterial color="#334155" />
+          </mesh>
+          <mesh position={[0.5, 1.6, 0]}>
+            <boxGeometry args={[1, 0.7, 0.05]} />
+            <meshStandardMaterial color={color} />
+          </mesh>
+        </>
+      )}
+      {isPowerUp(pickup.kind) && (
+        <mesh>
+          <octahedronGeometry args={[0.9, 0]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
 function Terrain({
+  seed,
+  profile,
+  course,
   playerZ,
   obstacles,
   setObstacles,
+  pickups,
+  setPickups,
   showCollisionBox
 }: {
+  seed: number;
+  profile: DifficultyProfile;
+  course: SlalomCourse | null; // The slope holds the course's gates, and whatever its file lays out
   playerZ: number;
   obstacles: Obstacle[];
   setObstacles: React.Dispatch<React.SetStateAction<Obstacle[]>>;
+  pickups: Pickup[]; // Those not yet collected
+  setPickups: React.Dispatch<React.SetStateAction<Pickup[]>>;
   showCollisionBox: boolean;
 }) {
-  const segmentLength = 200;
+  const segmentLength = SEGMENT_LENGTH;
   const visibleSegments = useRef<number[]>([]);
   const lastCleanup = useRef(playerZ);
   
@@ -443,21 +495,41 @@ function Terrain({
     }
   }, [snowTexture]);
 
-  const generateSegment = (segmentIndex: number) => {
+  const generateSegment = (segmentIndex: number): SegmentLayout => {
     const startZ = segmentIndex * segmentLength;
     const endZ = startZ + segmentLength;
-    return generateObstaclesForSegment(startZ, endZ);
+    const generate = () => generateProceduralSegment(seed, segmentIndex, profile);
+    if (!course) {
+      return generate();
+    }
+    const gates = courseObstaclesForSegment(course, startZ, endZ);
+    if (!course.file) {
+      return { obstacles: gates, pickups: [] };
+    }
+    const { file } = course;
+    const placed = placedObstacles(file, startZ, endZ).map<Obstacle>(({ type, x, z, id }) => ({
+      type,
+      position: new THREE.Vector3(x, 0, z),
+      id,
+    }));
+    const generated = generate();
+    const obstacles = [...gates, ...placed, ...generated.obstacles.filter(obstacle => isProceduralAt(file, obstacle.position.z))];
+    // Races are clean, with nothing to pick up; a course skied endlessly has
+    // pickups wherever the generator fills the slope
+    const pickups = isRaced(course) ? [] : generated.pickups.filter(pickup => isProceduralAt(file, pickup.position.z));
+    return { obstacles, pickups };
   };
 
   useEffect(() => {
-    const initialSegments: Obstacle[] = [];
+    const initialSegments: SegmentLayout[] = [];
     for (let i = -2; i < 3; i++) {
-      initialSegments.push(...generateSegment(i));
+      initialSegments.push(generateSegment(i));
       visibleSegments.current.push(i);
     }
-    setObstacles(initialSegments);
+    setObstacles(initialSegments.flatMap(layout => layout.obstacles));
+    setPickups(initialSegments.flatMap(layout => layout.pickups));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [setObstacles]);
+  }, [setObstacles, setPickups]);
 
   useFrame(() => {
     const currentSegment = Math.floor(playerZ / segmentLength);
@@ -471,8 +543,9 @@ function Terrain({
     }
 
     if (segmentsToGenerate.length > 0) {
-      const newObstacles = segmentsToGenerate.flatMap(generateSegment);
-      setObstacles((prev: Obstacle[]) => [...prev, ...newObstacles]);
+      const layouts = segmentsToGenerate.map(generateSegment);
+      setObstacles((prev: Obstacle[]) => [...prev, ...layouts.flatMap(layout => layout.obstacles)]);
+      setPickups(prev => [...prev, ...layouts.flatMap(layout => layout.pickups)]);
     }
 
     if (Math.abs(playerZ - lastCleanup.current) > segmentLength) {
@@ -480,6 +553,7 @@ function Terrain({
       setObstacles((prev: Obstacle[]) => 
         prev.filter((obs: Obstacle) => Math.floor(obs.position.z / segmentLength) >= cleanupThreshold)
       );
+      setPickups(prev => prev.filter(pickup => Math.floor(pickup.position.z / segmentLength) >= cleanupThreshold));
       visibleSegments.current = visibleSegments.current.filter(
         segment => segment >= cleanupThreshold
       );
@@ -490,6 +564,7 @@ function Terrain({
   // Create multiple ground planes that move with the player
   const groundPlanes = [];
   const planeSize = 1000; // Size of each ground plane segment
+  const planeWidth = 200; // Wider than the slope, so yetis beyond its edges leave footprints in snow
   const visibleDistance = 3000; // How far ahead the player can see
   
   // Create multiple ground planes extending forward
@@ -501,7 +576,7 @@ function Terrain({
         position={[0, -3, z]}
         receiveShadow
       >
-        <planeGeometry args={[100, planeSize]} />
+        <planeGeometry args={[planeWidth, planeSize]} />
         <meshStandardMaterial 
           color="#ffffff" 
           roughness={0.9}
@@ -519,7 +594,7 @@ function Terrain({
         position={[0, -3, z]}
         receiveShadow
       >
-        <planeGeometry args={[100, planeSize]} />
+        <planeGeometry args={[planeWidth, planeSize]} />
         <meshStandardMaterial 
           color="#ffffff" 
           roughness={0.9}
@@ -529,167 +604,162 @@ function Terrain({
     );
   }
 
-  // Add a counter to limit logging
-  let logCount = 0;
-  const maxLogs = 2; // Log bounds for the first few obstacles only
-
   return (
     <>
       {/* Infinite ground planes */}
       {groundPlanes}
 
       {/* Render obstacles and their collision boxes */}
-      {obstacles.map(obstacle => {
-        const config = OBSTACLES[obstacle.type];
-        const obstaclePosition = obstacle.position;
-        const visualYOffset = config.yOffset || 0;
-
-        let collisionBoxes: JSX.Element[] = [];
-        if (showCollisionBox) {
-          let obstacleMin: THREE.Vector3 | null = null;
-          let obstacleMax: THREE.Vector3 | null = null;
-
-          if ('collisionSegments' in config) {
-            // For poles with segments
-             config.collisionSegments.forEach((segment, index) => {
-               const obstacleRadius = segment.radius * config.scale.x;
-               const obstacleHeight = segment.height * config.scale.y;
-               const segmentBaseY = visualYOffset + segment.yOffset * config.scale.y;
-               // Calculate initial segment bounds
-               const min = new THREE.Vector3(
-                 obstaclePosition.x - obstacleRadius,
-                 obstaclePosition.y + segmentBaseY,
-                 obstaclePosition.z - obstacleRadius
-               );
-               const max = new THREE.Vector3(
-                 obstaclePosition.x + obstacleRadius,
-                 obstaclePosition.y + segmentBaseY + obstacleHeight,
-                 obstaclePosition.z + obstacleRadius
-               );
-
-               // *** Adjust specific adjustment for pole segments ***
-               const poleSegmentYAdjustment = -3; // Changed from -2 to -3 (Move down by 3 total)
-               min.y += poleSegmentYAdjustment;
-               max.y += poleSegmentYAdjustment;
-
-               // Log pole segment bounds if needed
-               if (logCount < maxLogs && index === 0) { // Log only first segment
-                 console.log(`Obstacle ${obstacle.id} (${obstacle.type}) Segment ${index} Final Bounds (adj: ${poleSegmentYAdjustment}):`, { min: min, max: max });
-                 logCount++;
-               }
-               collisionBoxes.push(
-                 <CollisionBox
-                   key={`${obstacle.id}-segment-${index}`}
-                   min={min} // Use adjusted min
-                   max={max} // Use adjusted max
-                   color={config.color || '#FF00FF'}
-                 />
-               );
-             });
-          } else {
-            // For regular obstacles (tree, rock, bump)
-            const obstacleRadius = config.collisionRadius * config.scale.x;
-            const obstacleHeight = ('collisionHeight' in config ? config.collisionHeight : 2) * config.scale.y;
-            const collisionBaseY = visualYOffset;
-            // Calculate initial bounds including visual offset
-            obstacleMin = new THREE.Vector3(
-              obstaclePosition.x - obstacleRadius,
-              obstaclePosition.y + collisionBaseY,
-              obstaclePosition.z - obstacleRadius
-            );
-            obstacleMax = new THREE.Vector3(
-              obstaclePosition.x + obstacleRadius,
-              obstaclePosition.y + collisionBaseY + obstacleHeight,
-              obstaclePosition.z + obstacleRadius
-            );
-
-            // *** Adjust specific adjustment for trees ***
-            if (obstacle.type === 'tree') {
-              const treeYAdjustment = -4; // Move down by 4
-              obstacleMin.y += treeYAdjustment;
-              obstacleMax.y += treeYAdjustment;
-              console.log(`Applied Y adjustment (${treeYAdjustment}) to tree ${obstacle.id}`);
-            }
-            // *** Add specific adjustment for rocks ***
-            else if (obstacle.type === 'rock') {
-              const rockYAdjustment = -2; // Move down by 2
-              obstacleMin.y += rockYAdjustment;
-              obstacleMax.y += rockYAdjustment;
-              console.log(`Applied Y adjustment (${rockYAdjustment}) to rock ${obstacle.id}`);
-            }
+      {obstacles.map(obstacle => (
+        <React.Fragment key={obstacle.id}>
+          <Obstacle
+            type={obstacle.type}
+            position={obstacle.position}
+          />
+          {showCollisionBox && <ObstacleCollisionBoxes obstacle={obstacle} />}
+        </React.Fragment>
+      ))}
+
+      {pickups.map(pickup => (
+        <React.Fragment key={pickup.id}>
+          <PickupItem pickup={pickup} />
+          {showCollisionBox && (
+            <CollisionBox {...getPickupBounds(pickup, 0)} color={PICKUP_COLORS[pickup.kind]} />
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
 
-            // Log final bounds
-            if (logCount < maxLogs) {
-               console.log(`Obstacle ${obstacle.id} (${obstacle.type}) Final Bounds:`, { min: obstacleMin, max: obstacleMax });
-               logCount++;
-            }
+// The collision boxes drawn over an obstacle in the debug view and the course editor
+export function ObstacleCollisionBoxes({ obstacle, color }: { obstacle: Obstacle; color?: string }) {
+  const config = OBSTACLES[obstacle.type];
+  const obstaclePosition = obstacle.position;
+  const visualYOffset = config.yOffset || 0;
+  const boxColor = color ?? config.color ?? '#FF00FF';
 
-            // Create the collision box with potentially adjusted bounds
-            collisionBoxes.push(
-              <CollisionBox
-                key={`${obstacle.id}-collision`}
-                min={obstacleMin} // Use the final min vector
-                max={obstacleMax} // Use the final max vector
-                color={config.color || '#FF00FF'}
-              />
-            );
-          }
-        }
+  if ('collisionSegments' in config) {
+    // For poles with segments
+    return (
+      <>
+        {config.collisionSegments.map((segment, index) => {
+          const obstacleRadius = segment.radius * config.scale.x;
+          const obstacleHeight = segment.height * config.scale.y;
+          const segmentBaseY = visualYOffset + segment.yOffset * config.scale.y;
+          // Calculate initial segment bounds
+          const min = new THREE.Vector3(
+            obstaclePosition.x - obstacleRadius,
+            obstaclePosition.y + segmentBaseY,
+            obstaclePosition.z - obstacleRadius
+          );
+          const max = new THREE.Vector3(
+            obstaclePosition.x + obstacleRadius,
+            obstaclePosition.y + segmentBaseY + obstacleHeight,
+            obstaclePosition.z + obstacleRadius
+          );
+
+          // *** Adjust specific adjustment for pole segments ***
+          const poleSegmentYAdjustment = -3; // Changed from -2 to -3 (Move down by 3 total)
+          min.y += poleSegmentYAdjustment;
+          max.y += poleSegmentYAdjustment;
+
+          return <CollisionBox key={index} min={min} max={max} color={boxColor} />;
+        })}
+      </>
+    );
+  }
 
-        return (
-          <React.Fragment key={obstacle.id}>
-            <Obstacle
-              type={obstacle.type}
-              position={obstacle.position}
-            />
-            {collisionBoxes}
-          </React.Fragment>
-        );
-      })}
-    </>
+  // For regular obstacles (tree, rock, bump)
+  const obstacleRadius = config.collisionRadius * config.scale.x;
+  const obstacleHeight = ('collisionHeight' in config ? config.collisionHeight : 2) * config.scale.y;
+  const collisionBaseY = visualYOffset;
+  // Calculate initial bounds including visual offset
+  const obstacleMin = new THREE.Vector3(
+    obstaclePosition.x - obstacleRadius,
+    obstaclePosition.y + collisionBaseY,
+    obstaclePosition.z - obstacleRadius
   );
+  const obstacleMax = new THREE.Vector3(
+    obstaclePosition.x + obstacleRadius,
+    obstaclePosition.y + collisionBaseY + obstacleHeight,
+    obstaclePosition.z + obstacleRadius
+  );
+
+  // *** Adjust specific adjustment for trees ***
+  if (obstacle.type === 'tree') {
+    const treeYAdjustment = -4; // Move down by 4
+    obstacleMin.y += treeYAdjustment;
+    obstacleMax.y += treeYAdjustment;
+  }
+  // *** Add specific adjustment for rocks ***
+  else if (obstacle.type === 'rock') {
+    const rockYAdjustment = -2; // Move down by 2
+    obstacleMin.y += rockYAdjustment;
+    obstacleMax.y += rockYAdjustment;
+  }
+
+  return <CollisionBox min={obstacleMin} max={obstacleMax} color={boxColor} />;
 }
 
-function generateObstaclesForSegment(startZ: number, endZ: number): Obstacle[] {
-  const obstacles: Obstacle[] = [];
-  const obstacleTypes = Object.keys(OBSTACLES) as (keyof typeof OBSTACLES)[];
-  const density = 0.15;
-  const stepSize = 15;
-  
-  for (let z = startZ; z < endZ; z += stepSize) {
-    for (let x = -45; x < 45; x += 8) {
-      if (Math.random() < density) {
-        const random = Math.random();
-        let cumulativeWeight = 0;
-        let selectedType = obstacleTypes[0];
-        
-        for (const type of obstacleTypes) {
-          cumulativeWeight += OBSTACLES[type].weight;
-          if (random < cumulativeWeight) {
-            selectedType = type;
-            break;
-          }
-        }
+// A slalom course's gates, as the poles that stand in this segment
+function courseObstaclesForSegment(course: SlalomCourse, startZ: number, endZ: number): Obstacle[] {
+  return course.gates.flatMap((gate, index) => {
+    if (gate.z < startZ || gate.z >= endZ) return [];
+    return gatePoles(gate).map((x, side) => ({
+      type: 'pole' as const,
+      position: new THREE.Vector3(x, 0, gate.z),
+      id: `gate:${index}:${side}`,
+    }));
+  });
+}
 
-        obstacles.push({
-          type: selectedType,
-          position: new THREE.Vector3(
-            x + (Math.random() * 6 - 3),
-            0,
-            z + (Math.random() * 6 - 3)
-          ),
-          id: Math.random(),
-        });
-      }
-    }
-  }
-  
-  return obstacles;
+// Banners strung between each gate's poles, and the finish line across the slope if there is one
+export function SlalomMarkers({ course }: { course: Pick<SlalomCourse, 'gates' | 'finishZ'> }) {
+  return (
+    <>
+      {course.gates.map((gate, index) => (
+        <mesh key={index} position={[gate.x, 7, gate.z]}>
+          <boxGeometry args={[gate.width, 1, 0.05]} />
+          <meshStandardMaterial color={index % 2 === 0 ? '#dc2626' : '#2563eb'} />
+        </mesh>
+      ))}
+      {course.finishZ !== null && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.95, course.finishZ]}>
+          <planeGeometry args={[BOUNDARY_X * 2, 2]} />
+          <meshBasicMaterial color="#dc2626" />
+        </mesh>
+      )}
+    </>
+  );
 }
 
 // --- Updated Player Component ---
-const Player = forwardRef<THREE.Group, { crashed: boolean; onCrashComplete: () => void; leftPressed: boolean; rightPressed: boolean }>(
-  ({ crashed, onCrashComplete, leftPressed, rightPressed }, ref) => {
+const LEAN = 0.4; // How far the skier leans into a turn with the skis at MAX_HEADING, in radians
+
+const Player = forwardRef<THREE.Group, {
+  crashed: boolean;
+  onCrashComplete: () => void;
+  heading: number; // Which way the skis point (see SkierState)
+  tucked?: boolean; // Crouched low to go faster
+  grabbing?: boolean; // Tucked down holding the skis, mid-jump
+  opacity?: number; // Below 1 renders a see-through ghost
+  shielded?: boolean; // Wrapped in the shield power-up's bubble
+  blinking?: boolean; // Flickers while nothing can hit it
+}>(
+  (
+    {
+      crashed,
+      onCrashComplete,
+      heading,
+      tucked = false,
+      grabbing = false,
+      opacity = 1,
+      shielded = false,
+      blinking = false,
+    },
+    ref
+  ) => {
     const { scene } = useGLTF(MODEL_URLS.skier);
 
     const clonedScene = useMemo(() => {
@@ -698,210 +768,591 @@ const Player = forwardRef<THREE.Group, { crashed: boolean; onCrashComplete: () =
         if (child instanceof THREE.Mesh) {
           child.material = child.material.clone();
           child.material.toneMapped = false;
-          child.castShadow = true;
+          if (opacity < 1) {
+            child.material.transparent = true;
+            child.material.opacity = opacity;
+            child.material.depthWrite = false;
+          } else {
+            child.castShadow = true;
+          }
         }
       });
       return clone;
-    }, [scene]);
+    }, [scene, opacity]);
 
-    const [rotation, setRotation] = useState(0);
-    const crashRotation = useRef({ x: 0, y: 0, z: 0 });
-    const crashAnimationCompleted = useRef(false);
+    // Tumbles forward when it crashes and ends up lying in the snow
+    const tumble = useAnimations(crashed ? 'crash' : 'idle', onCrashComplete);
+    const lean = crashed ? 0 : -(heading / MAX_HEADING) * LEAN;
 
     // ** Removed internal useEffect for keyboard controls **
 
-    // Update visual rotation based on props
-    useEffect(() => {
-      if (crashed) {
-        setRotation(0); // Or handle crash rotation separately if needed
-        return;
-      }
-      if (leftPressed) {
-        setRotation(0.4);
-      } else if (rightPressed) {
-        setRotation(-0.4);
-      } else {
-        setRotation(0);
-      }
-    }, [leftPressed, rightPressed, crashed]);
-
-    // Crash animation logic (remains the same)
-    useFrame((_: any, delta: number) => {
-       if (!ref || !crashed || crashAnimationCompleted.current) return;
-      // ... (crash animation logic) ...
-       else {
-         crashAnimationCompleted.current = true;
-         onCrashComplete();
-       }
+    useFrame(({ clock }) => {
+      clonedScene.visible = !blinking || Math.floor(clock.elapsedTime * 10) % 2 === 0;
     });
 
     return (
       <group
         ref={ref}
         position={[0, 0, 0]}
-        rotation={[0, 0, rotation]} // Apply turning rotation
+        rotation={[tumble.x, 0, 0]}
       >
-        <primitive
-          object={clonedScene}
-          position={[0, -2, 0]}
-          scale={[2.5, 2.5, 2.5]}
-          rotation={[0, Math.PI, 0]}
-          castShadow
-        />
+        {/* Faces the way the skis point and leans into the turn. Nested, so the spin set on the outer group stays put */}
+        <group rotation={[0, -heading, lean]}>
+          <primitive
+            object={clonedScene}
+            position={[0, -2, 0]}
+            scale={[2.5, 2.5, 2.5]}
+            rotation={[grabbing ? 0.5 : tucked ? 0.3 : 0, Math.PI, 0]}
+            castShadow
+          />
+        </group>
+        {shielded && (
+          <mesh position={[0, 0.5, 0]}>
+            <sphereGeometry args={[3, 24, 16]} />
+            <meshStandardMaterial color={PICKUP_COLORS.shield} transparent opacity={0.25} depthWrite={false} />
+          </mesh>
+        )}
       </group>
     );
   }
 );
 // --- End Updated Player Component ---
 
-// --- Define Yeti State Type ---
-interface YetiState {
-  active: boolean;
-  position: THREE.Vector3 | null;
-  direction: 'left' | 'right' | null; // Direction it's moving
-  spawnZ: number | null; // Z position where it was spawned
+const noop = () => {};
+
+// Headings are rendered to the nearest hundredth of a radian, so a steady one doesn't re-render every frame
+function roundHeading(heading: number): number {
+  return Math.round(heading * 100) / 100;
+}
+
+// A yeti the HUD points at from the edge of the screen
+interface YetiWarning {
+  id: number;
+  pointer: 'left' | 'right' | 'behind';
+  roaring: boolean; // Still giving its warning
+}
+
+function warningsKey(warnings: YetiWarning[]): string {
+  return warnings.map(w => `${w.id}:${w.pointer}:${w.roaring}`).join(',');
+}
+
+const POINTER_ICONS: Record<YetiWarning['pointer'], typeof Pause> = {
+  left: ArrowBigLeft,
+  right: ArrowBigRight,
+  behind: ArrowBigDown,
+};
+
+const POINTER_PLACEMENT: Record<YetiWarning['pointer'], string> = {
+  left: 'left-4 top-1/2 -translate-y-1/2 flex-col',
+  right: 'right-4 top-1/2 -translate-y-1/2 flex-col',
+  behind: 'bottom-24 left-1/2 -translate-x-1/2',
+};
+
+// Arrows at the edges of the screen towards yetis that are out of view
+function YetiWarningArrows({ warnings }: { warnings: YetiWarning[] }) {
+  return (
+    <>
+      {(Object.keys(POINTER_ICONS) as YetiWarning['pointer'][]).map(pointer => {
+        const here = warnings.filter(w => w.pointer === pointer);
+        if (here.length === 0) return null;
+        const Icon = POINTER_ICONS[pointer];
+        return (
+          <div key={pointer} className={`absolute z-10 flex gap-2 pointer-events-none ${POINTER_PLACEMENT[pointer]}`}>
+            {here.map(warning => (
+              <div
+                key={warning.id}
+                className={`flex flex-col items-center text-rose-500 ${warning.roaring ? 'animate-pulse' : ''}`}
+              >
+                <Icon size={40} fill="currentColor" />
+                {warning.roaring && <span className="font-bold text-sm">ROAR!</span>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+// --- Score Popups ---
+// Floating "+points" labels where a skill bonus was earned
+interface ScorePopup extends Omit<SkillAward, 'kind'> {
+  kind: SkillAwardKind | 'pickup';
+  id: number;
+  position: THREE.Vector3;
+  tick: number; // When it was earned; popups fade out after POPUP_TICKS
+}
+
+const POPUP_TICKS = 60;
+
+const POPUP_STYLES: Record<ScorePopup['kind'], string> = {
+  'near-miss': 'text-amber-300 text-lg',
+  thread: 'text-fuchsia-300 text-xl',
+  trick: 'text-sky-300 text-xl',
+  pickup: 'text-yellow-300 text-lg',
+};
+
+const POPUP_PREFIXES: Record<ScorePopup['kind'], string> = {
+  'near-miss': '',
+  thread: 'Thread! ',
+  trick: '',
+  pickup: '',
+};
+
+function ScorePopupLabel({ popup, tick }: { popup: ScorePopup; tick: number }) {
+  const age = (tick - popup.tick) / POPUP_TICKS;
+  return (
+    <Html position={[popup.position.x, popup.position.y + 4 + age * 3, popup.position.z]} center>
+      <div
+        className={`font-bold whitespace-nowrap pointer-events-none select-none ${POPUP_STYLES[popup.kind]}`}
+        style={{ opacity: 1 - age, textShadow: '0 1px 3px rgba(0,0,0,0.6)' }}
+      >
+        {popup.label ? `${popup.label}! ` : POPUP_PREFIXES[popup.kind]}+{popup.points}
+        {popup.multiplier > 1 && <span className="text-sm"> x{popup.multiplier}</span>}
+      </div>
+    </Html>
+  );
+}
+// --- End Score Popups ---
+
+// What the HUD shows of the current combo
+interface ComboHud {
+  count: number;
+  multiplier: number;
+  timeLeft: number; // Fraction of the combo window remaining, 0-1
+}
+
+const NO_COMBO: ComboHud = { count: 0, multiplier: 1, timeLeft: 0 };
+
+// Seconds left on each power-up, for the HUD
+type PowerUpHud = Record<PowerUpKind, number>;
+
+const NO_POWER_UPS: PowerUpHud = createPowerUpState().timers;
+
+const POWER_UP_ICONS: Record<PowerUpKind, typeof Pause> = {
+  shield: Shield,
+  'slow-motion': Hourglass,
+  magnet: Magnet,
+  repellent: SprayCan,
+};
+
+// Each running power-up's icon, with a countdown
+function PowerUpTimers({ timers }: { timers: PowerUpHud }) {
+  const running = POWER_UP_KINDS.filter(kind => timers[kind] > 0);
+  if (running.length === 0) return null;
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex gap-2 pointer-events-none">
+      {running.map(kind => {
+        const Icon = POWER_UP_ICONS[kind];
+        return (
+          <div key={kind} className="bg-black/50 text-white rounded p-2 flex flex-col items-center w-20" title={POWER_UPS[kind].label}>
+            <Icon size={20} color={PICKUP_COLORS[kind]} />
+            <span className="font-mono text-sm">{timers[kind].toFixed(1)}s</span>
+            <div className="h-1 w-full bg-white/20 rounded">
+              <div
+                className="h-1 rounded"
+                style={{ width: `${(timers[kind] / POWER_UPS[kind].duration) * 100}%`, background: PICKUP_COLORS[kind] }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// What the HUD shows of a slalom run
+interface SlalomProgress {
+  gate: number; // Gates skied so far
+  missed: number;
+  lastSplit: number | null; // Run time at the last gate
 }
-// --- End Yeti State Type ---
+
+const NO_SLALOM_PROGRESS: SlalomProgress = { gate: 0, missed: 0, lastSplit: null };
+
+// How a run can end. Crossing a slalom finish line is the only good way.
+type RunEnd = CrashCause | 'replay-end' | 'finished' | 'disqualified';
+
+function toCrashCause(end: RunEnd): CrashCause | null {
+  return end === 'replay-end' || end === 'finished' || end === 'disqualified' ? null : end;
+}
+
+// --- Simulation State ---
+// Everything the fixed-step simulation reads or writes lives here rather than in
+// React state, so a tick never sees a value from a render that hasn't happened yet.
+interface SimState {
+  tick: number;
+  score: number;
+  topSpeed: number;
+  combo: ComboState;
+  skier: SkierState;
+  air: AirState;
+  slalom: SlalomState | null; // Set on slalom courses
+  nextYeti: number; // Index of the course file's next yeti trigger
+  input: InputState;
+  yetis: YetiState;
+  hazards: HazardState;
+  powerUps: PowerUpState;
+  collected: Set<string>; // Ids of pickups already picked up
+  lives: number; // Left, counting the one being skied
+  cleared: Set<string>; // Ids of obstacles cleared away for a respawn
+  touched: Set<string>; // Ids of obstacles the skier rode through on a shield or grace, never near misses
+}
+// --- End Simulation State ---
 
 // --- Updated GameScene Component ---
 function GameScene({
+  seed,
+  difficulty,
+  course,
+  startZ,
   setScore,
   setSpeed,
-  setGameOver,
-  speed,
+  setTime,
+  onRunEnd,
   gameOver,
+  paused,
   onCrashComplete,
-  leftPressed, // Added prop
-  rightPressed // Added prop
+  inputRef,
+  recording,
+  replay,
+  ghost,
+  setGhostGap,
+  showSnow,
+  showCollisionBox,
+  onGameEvent,
+  setCombo,
+  setSlalomProgress,
+  setYetiWarnings,
+  setPowerUps,
+  lives,
+  setLivesLeft,
+  sound,
 }: {
-  setScore: (cb: (prev: number) => number) => void;
-  setSpeed: (cb: (prev: number) => number) => void;
-  setGameOver: (value: boolean) => void;
-  speed: number;
+  seed: number;
+  difficulty: Difficulty;
+  course: SlalomCourse | null; // Races this slalom course, or skis a course file's slope, instead of the generated one
+  startZ: number; // Where the skier sets off; only a course test starts below the start line
+  setScore: (score: number) => void;
+  setSpeed: (speed: number) => void;
+  setTime: (time: number) => void;
+  onRunEnd: (result: RunResult, slalom: SlalomResult | null) => void;
   gameOver: boolean;
+  paused: boolean; // Freezes the simulation in place (title screen, pause menu)
   onCrashComplete: () => void;
-  leftPressed: boolean; // Added prop type
-  rightPressed: boolean; // Added prop type
+  inputRef: React.MutableRefObject<InputState>; // Live input, sampled once per tick
+  recording: React.MutableRefObject<ReplayEvent[]>; // Sampled input changes are appended here
+  replay: Replay | null; // When set, inputs come from the replay instead (spectator mode)
+  ghost: GhostPath | null; // A previous run to race against
+  setGhostGap: (gap: number) => void; // Distance ahead of (positive) or behind (negative) the ghost
+  showSnow: boolean;
+  showCollisionBox: boolean;
+  onGameEvent: (event: GameEvent) => void;
+  setCombo: (combo: ComboHud) => void;
+  setSlalomProgress: (progress: SlalomProgress) => void;
+  setYetiWarnings: (warnings: YetiWarning[]) => void;
+  setPowerUps: (timers: PowerUpHud) => void;
+  lives: number; // More than one lets the run go on after a crash
+  setLivesLeft: (lives: number) => void;
+  sound: boolean;
 }) {
-  const [playerPosition] = useState(new THREE.Vector3(0, 2, 0));
+  const [playerPosition] = useState(new THREE.Vector3(0, 2, startZ));
   const playerRef = useRef<THREE.Group>(null);
+  const ghostRef = useRef<THREE.Group>(null);
+  const [ghostHeading, setGhostHeading] = useState(0);
+  const [ghostFinished, setGhostFinished] = useState(false);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   const [crashed, setCrashed] = useState(false);
   const [obstacles, setObstacles] = useState<Obstacle[]>([]);
-  const clock = useRef(new THREE.Clock()).current;
-  const lastFrameTime = useRef(0); // Add ref to store last frame time
-  const [showCollisionBox, setShowCollisionBox] = useState(false);
+  const [pickups, setPickups] = useState<Pickup[]>([]); // Dropped from here once collected
+  const publishedCollected = useRef(0);
+  const publishedTimers = useRef(''); // The power-up countdowns the HUD shows
+  const [shielded, setShielded] = useState(false);
+  const [blinking, setBlinking] = useState(false); // Rendered copy of whether anything can hit the skier
+  const getUpIn = useRef<number | null>(null); // Seconds until a skier who lost a life is back up
+  const accumulator = useRef(0);
+  const [popups, setPopups] = useState<ScorePopup[]>([]);
+  const newPopups = useRef<ScorePopup[]>([]); // Earned during this frame's steps
+  const nextPopupId = useRef(0);
+  const publishedSplits = useRef(0); // Slalom splits already shown in the HUD
+  const [input, setInput] = useState<InputState>(NO_INPUT); // Rendered copy of the sampled input
+  const [heading, setHeading] = useState(0); // Rendered copy of sim.skier.heading, see roundHeading
+  const [airborne, setAirborne] = useState(false); // Rendered copy of sim.air.airborne
+  const replayCursor = useMemo(() => (replay ? createReplayCursor(replay) : null), [replay]);
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  const raced = isRaced(course);
+
+  const sim = useRef<SimState>({
+    tick: 0,
+    score: 0,
+    topSpeed: 0,
+    combo: createComboState(),
+    skier: createSkierState(startZ, profile.speed),
+    air: createAirState(),
+    slalom: raced ? createSlalomState(course, startZ) : null,
+    nextYeti: course?.file?.yetis.filter(trigger => trigger.z >= startZ).length ?? 0,
+    input: NO_INPUT,
+    yetis: createYetiState(),
+    hazards: createHazardState(),
+    powerUps: createPowerUpState(),
+    collected: new Set(),
+    lives,
+    cleared: new Set(),
+    touched: new Set(),
+  });
 
   // --- Add Yeti State ---
-  const [yetiState, setYetiState] = useState<YetiState>({
-    active: false,
-    position: null,
-    direction: null,
-    spawnZ: null,
-  });
-  const yetiRef = useRef(new THREE.Vector3()); // Ref for mutable position updates
+  const [yetis, setYetis] = useState<Yeti[]>([]); // Rendered copy of sim.yetis
+  const yetiRng = useRef<Rng>(createRng(deriveSeed(seed, RNG_STREAMS.yeti)));
+  const roared = useRef(0); // Yeti ids below this have had their roar
+  const publishedWarnings = useRef(''); // warningsKey of the HUD's arrows
   // --- End Yeti State ---
+  const [hazards, setHazards] = useState<Hazard[]>([]); // Rendered copy of sim.hazards
+  const hazardRng = useRef<Rng>(createRng(deriveSeed(seed, RNG_STREAMS.hazards)));
 
   useEffect(() => {
     if (gameOver) {
       setCrashed(true);
     }
+  }, [gameOver]);
 
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === 'c') {
-        console.log("'c' key pressed, toggling showCollisionBox"); // Log key press
-        setShowCollisionBox(prev => {
-          console.log("Previous showCollisionBox state:", prev); // Log previous state
-          const nextState = !prev;
-          console.log("Next showCollisionBox state:", nextState); // Log next state
-          return nextState;
-        });
-      }
-    };
+  // Advances the simulation by one fixed step. Returns what ended the run,
+  // or null while the run goes on.
+  const step = (deltaTime: number): RunEnd | null => {
+    const state = sim.current;
+    const { speed } = state.skier;
+    state.topSpeed = Math.max(state.topSpeed, speed);
 
-    window.addEventListener('keypress', handleKeyPress);
-    return () => window.removeEventListener('keypress', handleKeyPress);
-  }, [gameOver]);
+    // A replay ends where the recorded run did, even if something drifted
+    if (replayCursor && state.tick > replay!.endTick) {
+      return 'replay-end';
+    }
 
-  useFrame(() => {
-    if (crashed) return;
-
-    // *** Corrected deltaTime Calculation ***
-    const currentTime = clock.getElapsedTime();
-    const deltaTime = Math.min(currentTime - lastFrameTime.current, 0.1); // Use 0.1 cap for stability
-    lastFrameTime.current = currentTime; // Update ref for next frame
-    // *** End Corrected deltaTime Calculation ***
-
-    // --- Player Movement Logic (using props) ---
-    const movementSpeed = 40 * speed; // Doubled base multiplier again (10 -> 20 -> 40)
-    playerPosition.z -= movementSpeed * deltaTime;
-
-    // ** Use leftPressed/rightPressed props directly **
-    const lateralSpeed = 18;
-    if (leftPressed) {
-      playerPosition.x -= lateralSpeed * deltaTime;
-    } else if (rightPressed) {
-      playerPosition.x += lateralSpeed * deltaTime;
+    // --- Input Sampling ---
+    const previousInput = state.input;
+    const nextInput = replayCursor ? replayCursor(state.tick) : { ...inputRef.current };
+    if (!replayCursor) {
+      recordInputChanges(recording.current, state.tick, state.input, nextInput);
     }
+    state.input = nextInput;
+    // --- End Input Sampling ---
+
+    // --- Player Movement Logic ---
+    const previousZ = state.skier.z;
+    moveSkier(state.skier, state.input, deltaTime);
+    playerPosition.x = state.skier.x;
+    playerPosition.z = state.skier.z;
+    // --- End Player Movement Logic ---
 
-    const boundaryX = 50;
-    playerPosition.x = Math.max(-boundaryX, Math.min(boundaryX, playerPosition.x));
+    // --- Airtime ---
+    // Jump hops on the press, not while held
+    if (state.input.jump && !previousInput.jump) {
+      launch(state.air, HOP_VELOCITY);
+    }
+    const landing = updateAir(state.air, state.input, deltaTime);
+    playerPosition.y = state.air.y;
+    if (landing && !landing.clean && !absorbHit(state.powerUps)) {
+      return 'landing';
+    }
+    if (landing?.clean && landing.trick) {
+      const award = awardTrick(state.combo, landing.trick);
+      state.score += award.points;
+      newPopups.current.push({ ...award, id: nextPopupId.current++, position: playerPosition.clone(), tick: state.tick });
+      onGameEvent({ type: 'trick', name: landing.trick.name, spins: landing.trick.spins, points: award.points });
+    }
+    // --- End Airtime ---
+
+    // --- Yetis ---
+    // A course file's yetis appear where it puts them, once each; a trigger
+    // passed while as many yetis are out as the slope allows is skipped.
+    // Otherwise they turn up at random, more at once further down the slope.
+    // Slalom courses are a clean race.
+    const distance = -playerPosition.z;
+    const trigger = course?.file?.yetis[state.nextYeti];
+    const triggered = trigger !== undefined && trigger.z < previousZ && trigger.z >= playerPosition.z;
+    if (triggered) {
+      state.nextYeti++;
+    }
+    const target = { x: playerPosition.x, z: playerPosition.z, speed };
+    // Repellent sends every yeti packing, and keeps new ones away while it lasts
+    const repelled = isActive(state.powerUps, 'repellent');
+    if (repelled) {
+      scareYetis(state.yetis);
+    } else if (state.yetis.yetis.length < Math.floor(sampleCurve(profile.yetiCount, distance))) {
+      const chance = sampleCurve(profile.yetiChance, distance) * speed; // Higher speed = higher chance
+      const spawn = triggered
+        ? { behavior: trigger.behavior ?? 'cross', side: trigger.from, distance: trigger.distance }
+        : raced
+          ? null
+          : rollYetiSpawn(yetiRng.current, chance, deltaTime, distance);
+      if (spawn) {
+        spawnYeti(state.yetis, spawn, target);
+      }
+    }
+    for (const event of updateYetis(state.yetis, target, deltaTime)) {
+      if (event.type === 'gave-up') {
+        onGameEvent({ type: 'yeti-dodged', behavior: event.yeti.behavior });
+      }
+    }
+    // --- End Yetis ---
 
-    // Update player group position (still needed)
-    if (playerRef.current) {
-       playerRef.current.position.copy(playerPosition);
+    // Moving hazards share the slope with the yetis, and stay off slalom courses too
+    if (!raced) {
+      updateHazards(state.hazards, hazardRng.current, target, profile.hazardRate, deltaTime);
     }
-    // --- End Player Movement Logic ---
 
-    // --- Yeti Spawning Logic ---
-    if (!yetiState.active && !gameOver) {
-      // *** Calculate dynamic spawn chance and distance based on player speed ***
-      const currentSpawnChance = BASE_YETI_SPAWN_CHANCE * speed; // Higher speed = higher chance
-      const currentSpawnDistance = BASE_YETI_SPAWN_DISTANCE * speed; // Higher speed = spawn further away
-
-      // Spawn randomly based on time and calculated chance
-      if (Math.random() < currentSpawnChance * deltaTime) {
-        const direction = Math.random() < 0.5 ? 'left' : 'right';
-        const startX = direction === 'left' ? YETI_STATIC_CONFIG.boundsX : -YETI_STATIC_CONFIG.boundsX;
-        // *** Use calculated spawn distance ***
-        const spawnZ = playerPosition.z - currentSpawnDistance;
-        const startY = 0; // Ground level
-
-        yetiRef.current.set(startX, startY, spawnZ);
-        setYetiState({
-          active: true,
-          position: yetiRef.current.clone(),
-          direction: direction,
-          spawnZ: spawnZ,
+    // --- Pickups ---
+    // Collected the same way obstacles are hit. The magnet pulls in coins and flags from further off.
+    const magnet = isActive(state.powerUps, 'magnet');
+    for (const pickup of pickups) {
+      if (state.collected.has(pickup.id)) continue;
+      if (!checkPickup(playerPosition, pickup, magnet && !isPowerUp(pickup.kind) ? MAGNET_REACH : 0)) continue;
+      state.collected.add(pickup.id);
+      const points = collectPickup(state.powerUps, pickup.kind);
+      if (points > 0) {
+        state.score += points;
+        newPopups.current.push({
+          kind: 'pickup',
+          points,
+          multiplier: 1,
+          label: pickup.kind === 'flag' ? 'Flag' : undefined,
+          id: nextPopupId.current++,
+          position: pickup.position,
+          tick: state.tick,
         });
       }
     }
-    // --- End Yeti Spawning Logic ---
+    // --- End Pickups ---
 
-    // --- Yeti Movement Logic ---
-    if (yetiState.active && yetiState.position && yetiState.direction) {
-      // *** Calculate dynamic yeti speed based on player speed ***
-      const currentYetiSpeed = BASE_YETI_SPEED * speed;
+    // Check for collisions. The skier's box rises with them, so airtime clears low obstacles.
+    // A shield shrugs off the first hit.
+    for (const obstacle of obstacles) {
+      if (state.cleared.has(obstacle.id) || !checkCollision(playerPosition, obstacle)) continue;
+      const config = OBSTACLES[obstacle.type];
+      if ('launch' in config) {
+        launch(state.air, config.launch);
+      } else if (absorbHit(state.powerUps)) {
+        state.touched.add(obstacle.id);
+      } else {
+        return obstacle.type;
+      }
+    }
 
-      // *** Use calculated speed for movement ***
-      const moveX = currentYetiSpeed * deltaTime * (yetiState.direction === 'left' ? -1 : 1);
-      yetiRef.current.x += moveX; // Update the ref
+    // Then anything moving. Only a yeti that has shown itself and hasn't
+    // given up can catch the skier.
+    for (const hazard of state.hazards.hazards) {
+      if (checkBoxCollision(playerPosition, hazardBoxes(hazard)) && !absorbHit(state.powerUps)) {
+        return hazard.kind;
+      }
+    }
+    for (const yeti of state.yetis.yetis) {
+      if (isDangerous(yeti) && checkBoxCollision(playerPosition, [yetiBox(yeti)]) && !absorbHit(state.powerUps)) {
+        return 'yeti';
+      }
+    }
 
-      // Keep Z constant at spawn depth
-      yetiRef.current.z = yetiState.spawnZ!;
+    // --- Slalom Gates ---
+    if (course && state.slalom) {
+      const update = updateSlalom(state.slalom, course, previousZ, playerPosition.x, playerPosition.z, state.tick * SIM_STEP);
+      if (update === 'passed' || update === 'missed') {
+        onGameEvent({ type: 'gate', passed: update === 'passed' });
+      } else if (update) {
+        return update;
+      }
+    }
+    // --- End Slalom Gates ---
+
+    // --- Skill Scoring ---
+    // Near misses are judged on the step the skier crosses an obstacle's row,
+    // by the gap left between the two collision boxes. Riding through one or
+    // jumping over it doesn't count, even if nothing came of it.
+    tickCombo(state.combo, deltaTime);
+    for (const obstacle of obstacles) {
+      if ('launch' in OBSTACLES[obstacle.type] || state.cleared.has(obstacle.id) || state.touched.has(obstacle.id)) continue;
+      if (obstacle.position.z < previousZ && obstacle.position.z >= playerPosition.z) {
+        const clearance = nearMissClearance(playerPosition, obstacle);
+        if (clearance !== null) {
+          const side = obstacle.position.x < playerPosition.x ? -1 : 1;
+          for (const award of awardNearMiss(state.combo, clearance, side, obstacle.position.z)) {
+            state.score += award.points;
+            newPopups.current.push({ ...award, id: nextPopupId.current++, position: obstacle.position, tick: state.tick });
+            if (award.kind === 'thread') {
+              onGameEvent({ type: 'thread', multiplier: award.multiplier });
+            }
+          }
+          onGameEvent({ type: 'near-pass', obstacle: obstacle.type, clearance, multiplier: comboMultiplier(state.combo) });
+        }
+      }
+    }
+    // --- End Skill Scoring ---
 
-      // Update state position
-      setYetiState(prev => ({ ...prev, position: yetiRef.current.clone() }));
+    // Update score and player speed (only if not game over)
+    state.score += deltaTime * 10 * speed;
+    updateSpeed(state.skier, state.input, deltaTime, profile.speed);
+    tickPowerUps(state.powerUps, deltaTime);
+    state.tick++;
+    return null;
+  };
 
-      // Despawn if out of bounds
-      if (
-        (yetiState.direction === 'left' && yetiRef.current.x < -YETI_STATIC_CONFIG.boundsX) ||
-        (yetiState.direction === 'right' && yetiRef.current.x > YETI_STATIC_CONFIG.boundsX)
-      ) {
-        setYetiState({ active: false, position: null, direction: null, spawnZ: null });
+  // A crash that cost a life plays the crash animation, then the skier stays down a moment
+  const handleKnockedDown = useCallback(() => {
+    getUpIn.current = RESPAWN_DELAY;
+  }, []);
+
+  useFrame((_, delta) => {
+    if (getUpIn.current !== null && !paused) {
+      getUpIn.current -= delta;
+      if (getUpIn.current <= 0) {
+        getUpIn.current = null;
+        setCrashed(false);
+      }
+    }
+    // Paused frames don't feed the accumulator, so resuming picks up on the exact tick it left
+    if (crashed || paused) return;
+
+    // Run as many fixed steps as the frame covers. The 0.1s cap keeps a stalled tab
+    // from fast-forwarding through a burst of ticks when it wakes up. Slow motion
+    // feeds it slower, so the same ticks play out over more frames.
+    accumulator.current += Math.min(delta, 0.1) * timeScale(sim.current.powerUps);
+    let ended: RunEnd | null = null;
+    while (!ended && accumulator.current >= SIM_STEP) {
+      accumulator.current -= SIM_STEP;
+      ended = step(SIM_STEP);
+      // --- Lives ---
+      // A crash with a life to spare knocks the skier down instead of ending the
+      // run. It only touches simulation state, so a replay loses its lives on
+      // the same ticks; the time spent down doesn't feed the accumulator.
+      const cause = ended && toCrashCause(ended);
+      if (cause && sim.current.lives > 1) {
+        const state = sim.current;
+        state.lives--;
+        loseLife(state.skier, profile.speed, state.powerUps);
+        state.air = createAirState();
+        state.combo = createComboState(); // A crash breaks the combo like anything else
+        playerPosition.y = state.air.y;
+        for (const obstacle of obstacles) {
+          if (isClearedOnRespawn(obstacle.position.x, obstacle.position.z, state.skier)) {
+            state.cleared.add(obstacle.id);
+          }
+        }
+        setObstacles(prev => prev.filter(obstacle => !state.cleared.has(obstacle.id)));
+        setLivesLeft(state.lives);
+        onGameEvent({ type: 'crash', cause });
+        setCrashed(true);
+        ended = null;
+        accumulator.current = 0;
+        break;
       }
+      // --- End Lives ---
+    }
+
+    const state = sim.current;
+
+    // Update player group position (still needed)
+    if (playerRef.current) {
+      playerRef.current.position.copy(playerPosition);
+      playerRef.current.rotation.y = state.air.spin;
     }
-    // --- End Yeti Movement Logic ---
 
     // Update camera position to follow player
     if (cameraRef.current) {
@@ -909,24 +1360,114 @@ function GameScene({
       cameraRef.current.position.z = playerPosition.z + 15; // Stay behind player
       cameraRef.current.lookAt(playerPosition.x, playerPosition.y, playerPosition.z);
     }
-    
-    // Check for collisions
-    for (const obstacle of obstacles) {
-      if (checkCollision(playerPosition, obstacle)) {
-        setGameOver(true);
-        return;
+
+    // --- Ghost Logic ---
+    // The ghost sits wherever its run was on the same tick, or where it crashed
+    if (ghost) {
+      const ghostTick = Math.max(0, Math.min(state.tick - 1, ghost.endTick)); // Last tick both have simulated
+      if (ghostRef.current) {
+        ghostRef.current.position.set(ghost.x[ghostTick], GROUND_Y, ghost.z[ghostTick]);
+      }
+      if (roundHeading(ghost.heading[ghostTick]) !== ghostHeading) {
+        setGhostHeading(roundHeading(ghost.heading[ghostTick]));
       }
+      if (!ghostFinished && state.tick >= ghost.endTick) {
+        setGhostFinished(true);
+      }
+      // z decreases downhill, so being further down than the ghost is a positive gap
+      setGhostGap(ghost.z[ghostTick] - playerPosition.z);
     }
+    // --- End Ghost Logic ---
 
-    // Check moving yeti (uses yetiRef.current, which has updated position)
-    if (yetiState.active && checkYetiCollision(playerPosition, yetiRef.current)) {
-       setGameOver(true);
-       return; // Stop frame processing on game over
+    // Publish the simulation to React for rendering and the HUD.
+    // Yetis and hazards move every step, so they're copied while any are out.
+    if (state.yetis.yetis.length > 0 || yetis.length > 0) {
+      setYetis(state.yetis.yetis.map(yeti => ({ ...yeti, prints: [...yeti.prints] })));
+    }
+    if (state.hazards.hazards.length > 0 || hazards.length > 0) {
+      setHazards(state.hazards.hazards.map(hazard => ({ ...hazard })));
+    }
+    if (state.collected.size !== publishedCollected.current) {
+      publishedCollected.current = state.collected.size;
+      setPickups(prev => prev.filter(pickup => !state.collected.has(pickup.id)));
+    }
+    const timersKey = POWER_UP_KINDS.map(kind => state.powerUps.timers[kind].toFixed(1)).join(',');
+    if (timersKey !== publishedTimers.current) {
+      publishedTimers.current = timersKey;
+      setPowerUps({ ...state.powerUps.timers });
+    }
+    if (isActive(state.powerUps, 'shield') !== shielded) {
+      setShielded(isActive(state.powerUps, 'shield'));
+    }
+    if (state.powerUps.grace > 0 !== blinking) {
+      setBlinking(state.powerUps.grace > 0);
+    }
+    // --- Yeti Warnings ---
+    // Each yeti roars once as its warning starts, from the side it's on
+    const skier = { x: playerPosition.x, z: playerPosition.z, speed: state.skier.speed };
+    for (const yeti of state.yetis.yetis) {
+      if (yeti.id < roared.current) continue;
+      roared.current = yeti.id + 1;
+      if (sound) {
+        playRoar((yeti.x - skier.x) / 40);
+      }
+    }
+    const warnings = state.yetis.yetis.flatMap(yeti => {
+      const pointer = yetiPointer(yeti, skier);
+      return pointer ? [{ id: yeti.id, pointer, roaring: yeti.phase === 'warning' }] : [];
+    });
+    if (warningsKey(warnings) !== publishedWarnings.current) {
+      publishedWarnings.current = warningsKey(warnings);
+      setYetiWarnings(warnings);
+    }
+    // --- End Yeti Warnings ---
+    if (state.input.tuck !== input.tuck || state.input.grab !== input.grab) {
+      setInput(state.input);
+    }
+    if (roundHeading(state.skier.heading) !== heading) {
+      setHeading(roundHeading(state.skier.heading));
+    }
+    if (state.air.airborne !== airborne) {
+      setAirborne(state.air.airborne);
+    }
+    setScore(state.score);
+    setSpeed(state.skier.speed);
+    setTime(state.tick * SIM_STEP);
+    setCombo({
+      count: state.combo.count,
+      multiplier: comboMultiplier(state.combo),
+      timeLeft: state.combo.timer / COMBO_WINDOW,
+    });
+    if (newPopups.current.length > 0 || popups.some(p => state.tick - p.tick >= POPUP_TICKS)) {
+      const fresh = newPopups.current;
+      newPopups.current = [];
+      setPopups(prev => [...prev.filter(p => state.tick - p.tick < POPUP_TICKS), ...fresh]);
+    }
+    if (state.slalom && state.slalom.splits.length !== publishedSplits.current) {
+      publishedSplits.current = state.slalom.splits.length;
+      setSlalomProgress({
+        gate: state.slalom.nextGate,
+        missed: state.slalom.missed,
+        lastSplit: state.slalom.splits[state.slalom.splits.length - 1],
+      });
+    }
+    onGameEvent({ type: 'progress', time: state.tick * SIM_STEP, speed: state.skier.speed, distance: -state.skier.z });
+
+    if (ended) {
+      const time = state.tick * SIM_STEP;
+      const crashCause = toCrashCause(ended);
+      const slalom = state.slalom && getSlalomResult(
+        state.slalom,
+        ended === 'finished' || ended === 'disqualified' ? ended : 'crashed',
+        time
+      );
+      if (slalom?.status === 'finished') {
+        onGameEvent({ type: 'finish', time: slalom.totalTime, missedGates: slalom.missedGates });
+      } else {
+        onGameEvent({ type: 'crash', cause: crashCause });
+      }
+      onRunEnd({ score: state.score, time, distance: -state.skier.z, topSpeed: state.topSpeed, crashCause }, slalom);
     }
-    
-    // Update score and player speed (only if not game over)
-    setScore(prev => prev + deltaTime * 10 * speed);
-    setSpeed(prev => Math.min(3, prev + deltaTime * 0.01));
   });
 
   // --- Calculate player collision box bounds for visualization ---
@@ -960,28 +1501,17 @@ function GameScene({
   );
   // --- End of collision box calculation ---
 
-  // --- Yeti Collision Box Calculation (for visualization) ---
-  let yetiCollisionBox = null;
-  if (showCollisionBox && yetiState.active && yetiState.position) {
-    // *** Use static config for dimensions ***
-    const yetiWidth = YETI_STATIC_CONFIG.collisionWidth;
-    const yetiHeight = YETI_STATIC_CONFIG.collisionHeight;
-    const yetiDepth = YETI_STATIC_CONFIG.collisionDepth;
-    const yetiBaseY = YETI_STATIC_CONFIG.yOffset;
-
-    const yetiMin = new THREE.Vector3(
-      yetiState.position.x - yetiWidth / 2,
-      yetiState.position.y + yetiBaseY,
-      yetiState.position.z - yetiDepth / 2
-    );
-    const yetiMax = new THREE.Vector3(
-      yetiState.position.x + yetiWidth / 2,
-      yetiState.position.y + yetiBaseY + yetiHeight,
-      yetiState.position.z + yetiDepth / 2
-    );
-    yetiCollisionBox = <CollisionBox min={yetiMin} max={yetiMax} color="red" />;
-  }
-  // --- End Yeti Collision Box Calculation ---
+  // --- Moving Collision Box Calculation (for visualization) ---
+  const movingCollisionBoxes = showCollisionBox
+    ? [
+        ...hazards.flatMap(hazard => hazardBoxes(hazard).map(box => ({ key: `hazard-${hazard.id}`, box }))),
+        ...yetis.filter(isDangerous).map(yeti => ({ key: `yeti-${yeti.id}`, box: yetiBox(yeti) })),
+      ].map(({ key, box }, index) => {
+        const { min, max } = hazardBounds(box);
+        return <CollisionBox key={`${key}-${index}`} min={min} max={max} color="red" />;
+      })
+    : null;
+  // --- End Moving Collision Box Calculation ---
 
   // Log player bounds if state is true
   if (showCollisionBox) {
@@ -1017,30 +1547,64 @@ function GameScene({
       <Player 
         ref={playerRef} 
         crashed={crashed} 
-        onCrashComplete={onCrashComplete}
-        leftPressed={leftPressed}
-        rightPressed={rightPressed}
+        onCrashComplete={gameOver ? onCrashComplete : handleKnockedDown}
+        heading={heading}
+        tucked={!airborne && input.tuck}
+        grabbing={airborne && input.grab}
+        shielded={shielded}
+        blinking={blinking && !crashed}
       />
       
+      {/* The ghost of a previous run */}
+      {ghost && (
+        <Player
+          ref={ghostRef}
+          crashed={ghostFinished}
+          onCrashComplete={noop}
+          heading={ghostHeading}
+          opacity={0.35}
+        />
+      )}
+      
       {/* Snow particles */}
-      <Snow />
+      {showSnow && <Snow seed={seed} />}
       
       {/* Terrain and obstacles */}
       <Terrain 
+        seed={seed}
+        profile={profile}
+        course={course}
         playerZ={playerPosition.z}
         obstacles={obstacles}
         setObstacles={setObstacles}
+        pickups={pickups}
+        setPickups={setPickups}
         showCollisionBox={showCollisionBox}
       />
 
-      {/* --- Render Yeti Collision Box --- */}
-      {yetiCollisionBox}
-      {/* --- End Render Yeti Collision Box --- */}
+      {/* --- Render Moving Collision Boxes --- */}
+      {movingCollisionBoxes}
+      {/* --- End Render Moving Collision Boxes --- */}
+
+      {hazards.map(hazard => (
+        <MovingHazard key={hazard.id} hazard={hazard} />
+      ))}
+
+      {raced && <SlalomMarkers course={course} />}
+
+      {/* Skill bonus popups */}
+      {popups.map(popup => (
+        <ScorePopupLabel key={popup.id} popup={popup} tick={sim.current.tick} />
+      ))}
 
       {/* --- Render Yeti --- */}
-      {yetiState.active && yetiState.position && (
-        <Yeti position={yetiState.position} />
-      )}
+      {/* A yeti giving its warning is still out of sight; only its footprints show */}
+      {yetis.map(yeti => (
+        <React.Fragment key={yeti.id}>
+          <YetiPrints prints={yeti.prints} />
+          {yeti.phase !== 'warning' && <Yeti position={new THREE.Vector3(yeti.x, 0, yeti.z)} />}
+        </React.Fragment>
+      ))}
       {/* --- End Render Yeti --- */}
     </>
   );
@@ -1048,16 +1612,141 @@ function GameScene({
 // --- End Updated GameScene Component ---
 
 // --- Updated Game Component ---
-function Game() {
+
+const TOUCH_BUTTONS: { input: 'jump' | 'spin' | 'grab'; label: string }[] = [
+  { input: 'jump', label: 'Jump' },
+  { input: 'spin', label: 'Spin' },
+  { input: 'grab', label: 'Grab' },
+];
+
+interface RunConfig {
+  mode: GameMode;
+  dailyKey: string;
+  seed: number;
+  difficulty: Difficulty;
+  course: SlalomCourse | null; // Set for slalom runs, and endless runs on a course file
+  lives: number; // One unless extra lives are on
+}
+
+// The course a replay was skied on, if any
+function getReplayCourse(replay: Replay): SlalomCourse | null {
+  if (replay.course) return courseFromFile(replay.course);
+  return replay.mode === 'slalom' ? generateSlalomCourse(replay.seed) : null;
+}
+
+// A course file without a finish line is skied as an endless run
+function courseMode(course: SlalomCourse): GameMode {
+  return isRaced(course) ? 'slalom' : 'endless';
+}
+
+// Picks the mode and slope for a run. Called again on every restart, so a
+// daily run restarted after midnight moves on to the new day's slope.
+// `loadedCourse` is a course the player opened from a file, and
+// `difficulty` the one they picked; replays and ghosts keep their own.
+// `lives` is how many the player's settings give a run, which replays keep too.
+function createRunConfig(
+  replay: Replay | null,
+  ghostReplay: Replay | null,
+  loadedCourse: SlalomCourse | null,
+  courseTest: CourseTest | null,
+  difficulty: Difficulty,
+  lives: number
+): RunConfig {
+  if (replay) {
+    return {
+      mode: replay.mode,
+      dailyKey: replay.dailyKey ?? getDailyKey(),
+      seed: replay.seed,
+      difficulty: replay.difficulty,
+      course: getReplayCourse(replay),
+      lives: replay.lives,
+    };
+  }
+  // The day is fixed when the run starts, so a run that crosses midnight still counts for the day it began
+  const dailyKey = getDailyKey();
+  if (ghostReplay) {
+    const { seed, difficulty } = ghostReplay;
+    if (ghostReplay.mode === 'slalom') {
+      return { mode: 'slalom', dailyKey, seed, difficulty, course: getReplayCourse(ghostReplay), lives };
+    }
+    // Racing an old daily run happens on its slope, but it no longer counts for that day
+    const mode = ghostReplay.mode === 'daily' && ghostReplay.dailyKey === dailyKey ? 'daily' : 'endless';
+    return { mode, dailyKey, seed, difficulty, course: getReplayCourse(ghostReplay), lives };
+  }
+  if (courseTest) {
+    // Whatever the URL says, a test from the editor skis the course being edited
+    const course = courseFromFile(courseTest.file);
+    return { mode: courseMode(course), dailyKey, seed: DEFAULT_COURSE_SEED, difficulty, course, lives };
+  }
+  const mode = getModeFromUrl();
+  if (mode === 'daily') {
+    return { mode, dailyKey, seed: getDailySeed(dailyKey), difficulty, course: null, lives };
+  }
+  // A ?seed=XXXXXXXX query param replays a specific slope, otherwise we roll a fresh one.
+  // Slalom keeps everyone on the same course by default, so its board means something.
+  const urlSeed = parseSeed(new URLSearchParams(window.location.search).get('seed'));
+  if (mode === 'slalom') {
+    const seed = urlSeed ?? DEFAULT_COURSE_SEED;
+    const course = loadedCourse ?? generateSlalomCourse(seed);
+    return { mode: courseMode(course), dailyKey, seed, difficulty, course, lives };
+  }
+  return { mode, dailyKey, seed: urlSeed ?? generateSeed(), difficulty, course: null, lives };
+}
+// How many lives a run starts with
+function startingLives(settings: Settings): number {
+  return settings.lives ? LIVES : 1;
+}
+
+function Game({
+  replay,
+  ghostReplay,
+  courseTest,
+  onWatchReplay,
+  onRaceGhost,
+  onOpenEditor,
+}: {
+  replay: Replay | null;
+  ghostReplay: Replay | null;
+  courseTest: CourseTest | null; // Set when playing a course from the editor
+  onWatchReplay: (replay: Replay) => void;
+  onRaceGhost: (replay: Replay) => void;
+  onOpenEditor: () => void;
+}) {
+  const [loadedCourse, setLoadedCourse] = useState<SlalomCourse | null>(null);
+  const [chosenDifficulty, setChosenDifficulty] = useState<Difficulty>(loadDifficulty);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [{ mode, dailyKey, seed, difficulty, course, lives }, setRun] = useState(
+    () => createRunConfig(replay, ghostReplay, null, courseTest, chosenDifficulty, startingLives(settings))
+  );
+  // Bumped on every restart to remount the scene, which resets everything it
+  // simulates while the Canvas and the loaded models stay warm
+  const [attempt, setAttempt] = useState(0);
   const [score, setScore] = useState(0);
   const [speed, setSpeed] = useState(1);
   const [time, setTime] = useState(0);
-  const [gameOver, setGameOver] = useState(false);
-  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [combo, setCombo] = useState<ComboHud>(NO_COMBO);
+  const [slalomProgress, setSlalomProgress] = useState<SlalomProgress>(NO_SLALOM_PROGRESS);
+  const [yetiWarnings, setYetiWarnings] = useState<YetiWarning[]>([]);
+  const [powerUps, setPowerUps] = useState<PowerUpHud>(NO_POWER_UPS);
+  const [livesLeft, setLivesLeft] = useState(lives);
+  const [slalomResult, setSlalomResult] = useState<SlalomResult | null>(null);
+  // Replays and ghost races were started from a menu already, so they skip the title screen
+  const [phase, dispatchPhase] = useReducer(nextGamePhase, replay || ghostReplay ? 'playing' : 'title');
+  const gameOver = phase === 'crashed' || phase === 'results';
+  const [crashCause, setCrashCause] = useState<CrashCause | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [achievementToasts, setAchievementToasts] = useState<Achievement[]>([]);
+  const achievementTracker = useRef(createAchievementTracker());
+  const accountId = useAccountId();
+  const ghost = useMemo(() => (ghostReplay ? computeGhostPath(ghostReplay) : null), [ghostReplay]);
+  const outdatedReplay = [replay, ghostReplay].some(played => played && isOutdatedReplay(played));
+  const [ghostGap, setGhostGap] = useState(0);
 
   // --- Centralized Input State ---
-  const [leftPressed, setLeftPressed] = useState(false);
-  const [rightPressed, setRightPressed] = useState(false);
+  // Handlers write here and GameScene samples it once per simulation tick
+  const inputRef = useRef<InputState>({ ...NO_INPUT });
+  const recording = useRef<ReplayEvent[]>([]);
   const [isMobile, setIsMobile] = useState(false);
   const joystickContainerRef = useRef<HTMLDivElement>(null);
   const joystickManager = useRef<JoystickManager | null>(null);
@@ -1073,6 +1762,15 @@ function Game() {
     const mobileDetected = checkMobile();
     setIsMobile(mobileDetected);
 
+    // Spectators don't steer
+    if (replay) return;
+    // Steering is only listened for while playing; held inputs are dropped when play stops
+    if (phase !== 'playing') return;
+
+    const setPressed = (pressed: Partial<InputState>) => {
+      inputRef.current = { ...inputRef.current, ...pressed };
+    };
+
     if (mobileDetected) {
       // Initialize NippleJS
       if (joystickContainerRef.current && !joystickManager.current) {
@@ -1083,38 +1781,54 @@ function Game() {
           color: 'rgba(255, 255, 255, 0.5)',
           size: 100, // Adjust size as needed
           threshold: 0.1, // Trigger sensitivity
-          lockX: true, // Only horizontal movement
         };
         joystickManager.current = nipplejs.create(options);
 
-        joystickManager.current.on('dir:left', () => {
-          setLeftPressed(true);
-          setRightPressed(false);
-        });
-        joystickManager.current.on('dir:right', () => {
-          setLeftPressed(false);
-          setRightPressed(true);
+        // Turns as hard as the stick is pushed sideways; pushed up it tucks, pulled back it snowplows
+        joystickManager.current.on('move', (_, data) => {
+          setPressed({ steer: quantizeSteer(data.vector.x), tuck: data.vector.y > 0.5, brake: data.vector.y < -0.5 });
         });
         joystickManager.current.on('end', () => {
-          setLeftPressed(false);
-          setRightPressed(false);
+          setPressed({ steer: 0, tuck: false, brake: false });
         });
       }
     } else {
       // Initialize Keyboard Listeners
       const handleKeyDown = (e: KeyboardEvent) => {
-        if (gameOver) return;
         if (e.key === 'ArrowLeft' || e.key === 'a') {
-          setLeftPressed(true);
+          setPressed({ left: true });
         } else if (e.key === 'ArrowRight' || e.key === 'd') {
-          setRightPressed(true);
+          setPressed({ right: true });
+        } else if (e.key === 'ArrowUp' || e.key === 'w') {
+          e.preventDefault(); // Don't scroll the page
+          setPressed({ tuck: true });
+        } else if (e.key === 'ArrowDown' || e.key === 's') {
+          e.preventDefault();
+          setPressed({ brake: true });
+        } else if (e.key === ' ') {
+          e.preventDefault(); // Don't scroll the page or click a focused button
+          setPressed({ jump: true });
+        } else if (e.key === 'q') {
+          setPressed({ spin: true });
+        } else if (e.key === 'e') {
+          setPressed({ grab: true });
         }
       };
       const handleKeyUp = (e: KeyboardEvent) => {
         if (e.key === 'ArrowLeft' || e.key === 'a') {
-          setLeftPressed(false);
+          setPressed({ left: false });
         } else if (e.key === 'ArrowRight' || e.key === 'd') {
-          setRightPressed(false);
+          setPressed({ right: false });
+        } else if (e.key === 'ArrowUp' || e.key === 'w') {
+          setPressed({ tuck: false });
+        } else if (e.key === 'ArrowDown' || e.key === 's') {
+          setPressed({ brake: false });
+        } else if (e.key === ' ') {
+          setPressed({ jump: false });
+        } else if (e.key === 'q') {
+          setPressed({ spin: false });
+        } else if (e.key === 'e') {
+          setPressed({ grab: false });
         }
       };
       window.addEventListener('keydown', handleKeyDown);
@@ -1135,51 +1849,335 @@ function Game() {
       }
     };
 
-  }, [gameOver]); // Re-run effect if game state changes if needed, primarily for cleanup
+  }, [phase, replay]); // Re-run effect if game state changes if needed, primarily for cleanup
 
+  // Drop held inputs when play stops, so a key released behind the menu doesn't stay pressed
   useEffect(() => {
-    if (gameOver) return;
+    if (phase !== 'playing') {
+      inputRef.current = { ...NO_INPUT };
+    }
+  }, [phase]);
 
-    const interval = setInterval(() => {
-      setTime(prev => prev + 0.1);
-    }, 100);
+  // --- Menu Keys ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave typing in the initials field alone
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Escape' && (showStats || showAchievements)) {
+        setShowStats(false);
+        setShowAchievements(false);
+      } else if (e.key === 'Escape' || e.key === 'p' || e.key === 'P') {
+        dispatchPhase(phase === 'paused' ? 'resume' : 'pause');
+      } else if (e.key === 'c') {
+        setSettings(prev => ({ ...prev, showCollisionBoxes: !prev.showCollisionBoxes }));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [phase, showStats, showAchievements]);
+  // --- End Menu Keys ---
+
+  // --- Auto-Pause ---
+  // Pause when the tab is hidden or the window loses focus, rather than
+  // relying on the frame-delta cap to stop the run from skiing on blindly
+  useEffect(() => {
+    if (!settings.autoPause) return;
+    const pause = () => dispatchPhase('pause');
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pause);
+    };
+  }, [settings.autoPause]);
+  // --- End Auto-Pause ---
 
-    return () => clearInterval(interval);
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // The finished run as a replay, for export and for attaching to a leaderboard entry.
+  // A course test can start partway down, which a replay has no way to say.
+  const recordedReplay = useMemo<Replay | null>(() => {
+    if (!gameOver || replay || courseTest) return null;
+    return {
+      version: REPLAY_VERSION,
+      seed,
+      mode,
+      dailyKey: mode === 'daily' ? dailyKey : undefined,
+      course: course?.file ?? undefined,
+      difficulty,
+      lives,
+      events: recording.current,
+      endTick: Math.round(time / SIM_STEP),
+      score,
+      time,
+      recordedAt: new Date().toISOString(),
+    };
+    // Snapshot once when the run ends; score and time are final by then
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameOver]);
 
-  const handleRestart = () => {
-    window.location.reload();
+  // Slalom runs are judged on time, so they don't compete for the personal best score,
+  // and neither do runs on a course file's slope or that had lives to spare
+  useEffect(() => {
+    if (recordedReplay && recordedReplay.mode !== 'slalom' && !recordedReplay.course && recordedReplay.lives === 1) {
+      savePersonalBest(recordedReplay);
+    }
+  }, [recordedReplay]);
+
+  const startRun = (nextCourse: SlalomCourse | null) => {
+    const nextRun = createRunConfig(replay, ghostReplay, nextCourse, courseTest, chosenDifficulty, startingLives(settings));
+    setRun(nextRun);
+    setAttempt(prev => prev + 1);
+    setLivesLeft(nextRun.lives);
+    setScore(0);
+    setSpeed(1);
+    setTime(0);
+    setGhostGap(0);
+    setCombo(NO_COMBO);
+    setSlalomProgress(NO_SLALOM_PROGRESS);
+    setYetiWarnings([]);
+    setPowerUps(NO_POWER_UPS);
+    setSlalomResult(null);
+    setCrashCause(null);
+    achievementTracker.current = createAchievementTracker();
+    // A fresh array, so the replay of the previous run keeps its own events
+    recording.current = [];
+    inputRef.current = { ...NO_INPUT };
+    dispatchPhase('restart');
+  };
+
+  const handleRestart = () => startRun(loadedCourse);
+
+  const handleLoadCourse = (nextCourse: SlalomCourse) => {
+    setLoadedCourse(nextCourse);
+    startRun(nextCourse);
+  };
+
+  // Picked on the title screen, so the slope is rebuilt before anyone has skied it
+  const handleChangeDifficulty = (nextDifficulty: Difficulty) => {
+    setChosenDifficulty(nextDifficulty);
+    saveDifficulty(nextDifficulty);
+    setRun(run => ({ ...run, difficulty: nextDifficulty }));
+    setAttempt(prev => prev + 1);
+  };
+
+  // Extra lives switched on or off from the title screen apply to the run about
+  // to start; anywhere else they wait for the next one
+  const handleChangeSettings = (nextSettings: Settings) => {
+    setSettings(nextSettings);
+    if (phase === 'title' && nextSettings.lives !== settings.lives) {
+      setRun(run => ({ ...run, lives: startingLives(nextSettings) }));
+      setAttempt(prev => prev + 1);
+      setLivesLeft(startingLives(nextSettings));
+    }
   };
 
+  const handleSwitchMode = (nextMode: GameMode) => {
+    window.location.assign(getModeUrl(nextMode));
+  };
+
+  const handleRunEnd = (result: RunResult, slalom: SlalomResult | null) => {
+    dispatchPhase(slalom?.status === 'finished' ? 'finish' : 'crash');
+    setCrashCause(result.crashCause);
+    setSlalomResult(slalom);
+    // Spectated replays were logged when they were played, and course tests aren't real runs
+    if (!replay && !courseTest) {
+      addRunLog({
+        ...result,
+        id: crypto.randomUUID(),
+        mode,
+        seed,
+        day: mode === 'daily' ? dailyKey : null,
+        endedAt: new Date().toISOString(),
+      });
+    }
+  };
+
+  // Spectators watch someone else's run, so it earns them nothing
+  const handleGameEvent = (event: GameEvent) => {
+    if (replay) return;
+    const completed = achievementTracker.current.handle(event);
+    if (completed.length === 0) return;
+    const fresh = unlockAchievements(accountId, completed.map(a => a.id));
+    if (fresh.length > 0) {
+      setAchievementToasts(prev => [...prev, ...fresh.map(id => getAchievement(id)!)]);
+    }
+  };
+
+  // Stable, since the toast's timer restarts whenever this changes and Game re-renders every frame
+  const dismissAchievementToast = useCallback((achievement: Achievement) => {
+    setAchievementToasts(prev => prev.filter(a => a !== achievement));
+  }, []);
+
   const handleCrashComplete = () => {
-    setShowLeaderboard(true);
+    dispatchPhase('crashComplete');
   };
 
   return (
     <div className="w-full h-screen relative overflow-hidden"> {/* Added overflow-hidden */}
       <div className="absolute top-0 left-0 p-4 text-white z-10">
         <div className="bg-black/50 p-2 rounded">
-          <p>Score: {Math.floor(score)}</p>
-          <p>Speed: {speed.toFixed(1)}x</p>
-          <p>Time: {Math.floor(time)}s</p>
+          {replay && (
+            <p className="text-xs uppercase tracking-wide text-amber-300">Replay</p>
+          )}
+          {mode === 'daily' && (
+            <p className="text-xs uppercase tracking-wide text-sky-300">Daily Challenge · {formatDailyKey(dailyKey)}</p>
+          )}
+          {course && (
+            <p className="text-xs uppercase tracking-wide text-sky-300">
+              {courseTest ? 'Course test' : isRaced(course) ? 'Slalom' : 'Course'} · {course.name}
+            </p>
+          )}
+          {isRaced(course) ? (
+            <>
+              <p className="font-mono">Time: {formatRaceTime(time)}</p>
+              {course.gates.length > 0 && <p>Gate: {slalomProgress.gate}/{course.gates.length}</p>}
+              {slalomProgress.lastSplit !== null && (
+                <p className="font-mono text-sm">Split: {formatRaceTime(slalomProgress.lastSplit)}</p>
+              )}
+              {slalomProgress.missed > 0 && (
+                <p className="text-rose-300">
+                  Missed: {slalomProgress.missed} (+{slalomProgress.missed * MISSED_GATE_PENALTY}s)
+                </p>
+              )}
+              <p>Speed: {speed.toFixed(1)}x</p>
+            </>
+          ) : (
+            <>
+              <p>Score: {Math.floor(score)}</p>
+              <p>Speed: {speed.toFixed(1)}x</p>
+              <p>Time: {Math.floor(time)}s</p>
+            </>
+          )}
+          {combo.count > 0 && (
+            <div className="text-amber-300">
+              <p className="font-bold">Combo x{combo.multiplier.toFixed(1)}</p>
+              <div className="h-1 w-24 bg-white/20 rounded">
+                <div className="h-1 bg-amber-300 rounded" style={{ width: `${combo.timeLeft * 100}%` }} />
+              </div>
+            </div>
+          )}
+          {lives > 1 && (
+            <div className="flex gap-1 my-1" title={`${livesLeft} of ${lives} lives left`}>
+              {Array.from({ length: lives }, (_, index) => (
+                <Heart key={index} size={16} className="text-rose-400" fill={index < livesLeft ? 'currentColor' : 'none'} />
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-white/60">{DIFFICULTY_LABELS[difficulty]}</p>
+          <p className="text-xs text-white/60 font-mono">Seed: {formatSeed(seed)}</p>
+          {outdatedReplay && (
+            <p className="text-xs text-amber-300 max-w-48">
+              {replay ? 'This replay' : 'This ghost'} was recorded on an older version of the game and may not play out the way it was skied
+            </p>
+          )}
+          {ghost && (
+            <p className={ghostGap >= 0 ? 'text-emerald-300' : 'text-rose-300'}>
+              Ghost: {ghostGap >= 0 ? '+' : '-'}{Math.abs(ghostGap).toFixed(0)}m {ghostGap >= 0 ? 'ahead' : 'behind'}
+            </p>
+          )}
         </div>
       </div>
       
       <Canvas style={{ background: "#87CEEB" }}>
         <GameScene
+          key={attempt}
+          seed={seed}
+          difficulty={difficulty}
+          course={course}
+          startZ={courseTest?.startZ ?? 0}
           setScore={setScore}
           setSpeed={setSpeed}
-          setGameOver={setGameOver}
-          speed={speed}
+          setTime={setTime}
+          onRunEnd={handleRunEnd}
           gameOver={gameOver}
+          paused={!gameOver && !isSimulating(phase)}
           onCrashComplete={handleCrashComplete}
-          leftPressed={leftPressed}
-          rightPressed={rightPressed}
+          inputRef={inputRef}
+          recording={recording}
+          replay={replay}
+          ghost={ghost}
+          setGhostGap={setGhostGap}
+          showSnow={settings.showSnow}
+          showCollisionBox={settings.showCollisionBoxes}
+          onGameEvent={handleGameEvent}
+          setCombo={setCombo}
+          setSlalomProgress={setSlalomProgress}
+          setYetiWarnings={setYetiWarnings}
+          setPowerUps={setPowerUps}
+          lives={lives}
+          setLivesLeft={setLivesLeft}
+          sound={settings.sound}
         />
       </Canvas>
 
+      {!gameOver && <YetiWarningArrows warnings={yetiWarnings} />}
+      {!gameOver && <PowerUpTimers timers={powerUps} />}
+
+      <AchievementToasts
+        achievements={achievementToasts}
+        onDismiss={dismissAchievementToast}
+      />
+
+      {phase === 'playing' && (
+        <button
+          onClick={() => dispatchPhase('pause')}
+          aria-label="Pause"
+          className="absolute top-4 right-4 z-10 bg-black/50 text-white p-2 rounded hover:bg-black/70 transition"
+        >
+          <Pause size={20} />
+        </button>
+      )}
+
+      {(phase === 'title' || phase === 'paused') && (
+        <GameMenu
+          variant={phase}
+          seed={seed}
+          mode={mode}
+          dailyKey={dailyKey}
+          course={course}
+          difficulty={difficulty}
+          settings={settings}
+          onChangeSettings={handleChangeSettings}
+          onChangeDifficulty={handleChangeDifficulty}
+          onStart={() => dispatchPhase('start')}
+          onResume={() => dispatchPhase('resume')}
+          onRestart={handleRestart}
+          onSwitchMode={handleSwitchMode}
+          onLoadCourse={handleLoadCourse}
+          onOpenEditor={onOpenEditor}
+          onShowStats={() => setShowStats(true)}
+          onShowAchievements={() => setShowAchievements(true)}
+        />
+      )}
+
+      {showStats && <StatsDashboard onClose={() => setShowStats(false)} />}
+      {showAchievements && <AchievementGallery onClose={() => setShowAchievements(false)} />}
+
+      {/* Trick buttons, held like keys */}
+      {isMobile && !replay && phase === 'playing' && (
+        <div className="absolute bottom-16 right-4 z-30 flex flex-col gap-2">
+          {TOUCH_BUTTONS.map(({ input, label }) => (
+            <button
+              key={input}
+              onPointerDown={() => { inputRef.current = { ...inputRef.current, [input]: true }; }}
+              onPointerUp={() => { inputRef.current = { ...inputRef.current, [input]: false }; }}
+              onPointerLeave={() => { inputRef.current = { ...inputRef.current, [input]: false }; }}
+              className="w-16 h-16 rounded-full bg-black/50 text-white font-bold select-none touch-none active:bg-black/70"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Conditionally render Joystick Container */}
-      {isMobile && (
+      {isMobile && !replay && (
         <div
            ref={joystickContainerRef}
            style={{
@@ -1198,10 +2196,29 @@ function Game() {
       )}
 
       <Leaderboard
-        isVisible={showLeaderboard}
+        key={attempt}
+        isVisible={phase === 'results'}
         currentScore={score}
         currentTime={time}
+        seed={seed}
+        difficulty={difficulty}
+        mode={mode}
+        dailyKey={dailyKey}
+        recordedReplay={recordedReplay}
+        crashCause={crashCause}
+        course={isRaced(course) ? course : null}
+        slalomResult={slalomResult}
+        isSpectating={replay !== null}
+        isCourseTest={courseTest !== null}
+        isCourseFileRun={course !== null && !isRaced(course)}
+        hadExtraLives={lives > 1}
         onRestart={handleRestart}
+        onSwitchMode={handleSwitchMode}
+        onOpenEditor={onOpenEditor}
+        onShowStats={() => setShowStats(true)}
+        onShowAchievements={() => setShowAchievements(true)}
+        onWatchReplay={onWatchReplay}
+        onRaceGhost={onRaceGhost}
       />
     </div>
   );
@@ -0,0 +1,233 @@
+import { useState, type ChangeEvent } from 'react';
+import {
+  ArrowLeft,
+  Award,
+  BarChart3,
+  CalendarDays,
+  Flag,
+  FolderOpen,
+  Infinity as InfinityIcon,
+  PencilRuler,
+  Play,
+  RotateCcw,
+  Settings as SettingsIcon,
+} from 'lucide-react';
+import { formatSeed } from '../lib/random';
+import { formatDailyKey, MODE_LABELS, type GameMode } from '../lib/daily';
+import { CourseFileError, readCourseFile } from '../lib/course';
+import { DIFFICULTIES, DIFFICULTY_LABELS, type Difficulty } from '../lib/difficulty';
+import { courseFromFile, type SlalomCourse } from '../lib/slalom';
+import type { Settings } from '../lib/settings';
+
+interface GameMenuProps {
+  variant: 'title' | 'paused';
+  seed: number;
+  mode: GameMode;
+  dailyKey: string;
+  course: SlalomCourse | null;
+  difficulty: Difficulty;
+  settings: Settings;
+  onChangeSettings: (settings: Settings) => void;
+  onChangeDifficulty: (difficulty: Difficulty) => void;
+  onStart: () => void;
+  onResume: () => void;
+  onRestart: () => void;
+  onSwitchMode: (mode: GameMode) => void;
+  onLoadCourse: (course: SlalomCourse) => void;
+  onOpenEditor: () => void;
+  onShowStats: () => void;
+  onShowAchievements: () => void;
+}
+
+const MODE_ICONS: Record<GameMode, typeof Play> = {
+  endless: InfinityIcon,
+  daily: CalendarDays,
+  slalom: Flag,
+};
+
+const SETTING_LABELS: { key: keyof Settings; label: string }[] = [
+  { key: 'autoPause', label: 'Pause when the game loses focus' },
+  { key: 'showSnow', label: 'Falling snow' },
+  { key: 'sound', label: 'Sound effects' },
+  { key: 'lives', label: 'Extra lives (not on the leaderboards)' },
+  { key: 'showCollisionBoxes', label: 'Show collision boxes (C)' },
+];
+
+function GameMenu({
+  variant,
+  seed,
+  mode,
+  dailyKey,
+  course,
+  difficulty,
+  settings,
+  onChangeSettings,
+  onChangeDifficulty,
+  onStart,
+  onResume,
+  onRestart,
+  onSwitchMode,
+  onLoadCourse,
+  onOpenEditor,
+  onShowStats,
+  onShowAchievements,
+}: GameMenuProps) {
+  const [showSettings, setShowSettings] = useState(false);
+  const [courseErrors, setCourseErrors] = useState<string[]>([]);
+  const otherModes = (Object.keys(MODE_LABELS) as GameMode[]).filter(m => m !== mode);
+
+  const handleCourseFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // So picking the same file again still fires
+    if (!file) return;
+    try {
+      onLoadCourse(courseFromFile(await readCourseFile(file)));
+      setCourseErrors([]);
+    } catch (error) {
+      if (error instanceof CourseFileError) {
+        setCourseErrors(error.problems);
+      } else {
+        setCourseErrors(['Could not load that course']);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-30">
+      <div className="bg-black/50 p-8 rounded-lg max-w-sm w-full backdrop-blur-sm text-white">
+        {showSettings ? (
+          <>
+            <h2 className="text-2xl font-bold mb-4">Settings</h2>
+            <div className="space-y-3 mb-6">
+              {SETTING_LABELS.map(({ key, label }) => (
+                <label key={key} className="flex items-center justify-between gap-4 cursor-pointer">
+                  <span>{label}</span>
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={e => onChangeSettings({ ...settings, [key]: e.target.checked })}
+                    className="w-4 h-4 accent-sky-400"
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowSettings(false)}
+              className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+            >
+              <ArrowLeft size={16} /> Back
+            </button>
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold mb-1">{variant === 'title' ? 'Vibe Skiing' : 'Paused'}</h2>
+            <p className="text-white/60 text-sm mb-6">
+              {mode === 'daily' ? `Daily Challenge · ${formatDailyKey(dailyKey)}` : MODE_LABELS[mode]}
+              {course ? (
+                <span> · {course.name}</span>
+              ) : (
+                <span className="font-mono"> · Seed {formatSeed(seed)}</span>
+              )}
+              {variant === 'paused' && <span> · {DIFFICULTY_LABELS[difficulty]}</span>}
+            </p>
+            {/* Only before the run, so a run is skied on one difficulty from start to finish */}
+            {variant === 'title' && (
+              <div className="flex gap-1 mb-4" role="radiogroup" aria-label="Difficulty">
+                {DIFFICULTIES.map(d => (
+                  <button
+                    key={d}
+                    role="radio"
+                    aria-checked={d === difficulty}
+                    onClick={() => onChangeDifficulty(d)}
+                    className={`flex-1 px-2 py-1 rounded text-sm transition ${
+                      d === difficulty ? 'bg-sky-500/40' : 'bg-white/10 hover:bg-white/20'
+                    }`}
+                  >
+                    {DIFFICULTY_LABELS[d]}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              {variant === 'title' ? (
+                <button
+                  onClick={onStart}
+                  className="w-full flex items-center justify-center gap-2 bg-sky-500/30 px-4 py-2 rounded hover:bg-sky-500/40 transition"
+                >
+                  <Play size={16} /> Start
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={onResume}
+                    className="w-full flex items-center justify-center gap-2 bg-sky-500/30 px-4 py-2 rounded hover:bg-sky-500/40 transition"
+                  >
+                    <Play size={16} /> Resume
+                  </button>
+                  <button
+                    onClick={onRestart}
+                    className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+                  >
+                    <RotateCcw size={16} /> Restart
+                  </button>
+                </>
+              )}
+              {(mode === 'slalom' || course) && (
+                <label className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition cursor-pointer">
+                  <FolderOpen size={16} /> Load course
+                  <input type="file" accept=".json,application/json" onChange={handleCourseFile} className="hidden" />
+                </label>
+              )}
+              {courseErrors.length > 0 && (
+                <ul className="text-rose-300 text-sm list-disc pl-5 max-h-32 overflow-y-auto">
+                  {courseErrors.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {otherModes.map(m => {
+                const Icon = MODE_ICONS[m];
+                return (
+                  <button
+                    key={m}
+                    onClick={() => onSwitchMode(m)}
+                    className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+                  >
+                    <Icon size={16} /> {m === 'endless' ? 'Endless Mode' : MODE_LABELS[m]}
+                  </button>
+                );
+              })}
+              <button
+                onClick={onOpenEditor}
+                className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+              >
+                <PencilRuler size={16} /> Course editor
+              </button>
+              <button
+                onClick={() => setShowSettings(true)}
+                className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+              >
+                <SettingsIcon size={16} /> Settings
+              </button>
+              <button
+                onClick={onShowStats}
+                className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+              >
+                <BarChart3 size={16} /> Stats
+              </button>
+              <button
+                onClick={onShowAchievements}
+                className="w-full flex items-center justify-center gap-2 bg-white/20 px-4 py-2 rounded hover:bg-white/30 transition"
+              >
+                <Award size={16} /> Achievements
+              </button>
+            </div>
+            <p className="text-white/40 text-xs text-center mt-4">
+              {variant === 'title' ? 'Steer with ← → or A / D · ↑ / W tucks, ↓ / S snowplows · Space jumps, hold Q to spin and E to grab · Esc or P pauses' : 'Press Esc or P to resume'}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GameMenu;
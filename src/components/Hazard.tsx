@@ -0,0 +1,109 @@
+import { CHAIR_HEIGHT, chairliftChairs, chairliftTowers, type Hazard as MovingHazard } from '../lib/hazards';
+
+const SNOW_SURFACE = -3; // Where the snow is drawn
+const CABLE_HEIGHT = 10; // Above the snow
+
+// Colours cycle by id, so two skiers out at once look different
+const JACKET_COLORS = ['#f97316', '#22c55e', '#a855f7', '#eab308'];
+
+function OtherSkier({ hazard }: { hazard: MovingHazard }) {
+  const heading = Math.atan2(hazard.vx, hazard.vz);
+  return (
+    <group position={[hazard.x, SNOW_SURFACE, hazard.z]} rotation={[0, heading, 0]}>
+      <mesh position={[0, 0.05, 0]}>
+        <boxGeometry args={[0.8, 0.1, 3]} />
+        <meshStandardMaterial color="#1e293b" />
+      </mesh>
+      <mesh position={[0, 2, 0]} castShadow>
+        <boxGeometry args={[1, 2.6, 0.8]} />
+        <meshStandardMaterial color={JACKET_COLORS[hazard.id % JACKET_COLORS.length]} />
+      </mesh>
+      <mesh position={[0, 3.8, 0]} castShadow>
+        <sphereGeometry args={[0.5, 12, 12]} />
+        <meshStandardMaterial color="#fcd34d" />
+      </mesh>
+    </group>
+  );
+}
+
+function Snowmobile({ hazard }: { hazard: MovingHazard }) {
+  const heading = Math.atan2(hazard.vx, hazard.vz);
+  return (
+    <group position={[hazard.x, SNOW_SURFACE, hazard.z]} rotation={[0, heading, 0]}>
+      <mesh position={[0, 1, 0]} castShadow>
+        <boxGeometry args={[1.6, 1.2, 3.5]} />
+        <meshStandardMaterial color="#dc2626" />
+      </mesh>
+      <mesh position={[0, 2, 0.9]} rotation={[-0.5, 0, 0]}>
+        <boxGeometry args={[1.4, 0.8, 0.1]} />
+        <meshStandardMaterial color="#bae6fd" transparent opacity={0.7} />
+      </mesh>
+      {[-0.7, 0.7].map(x => (
+        <mesh key={x} position={[x, 0.1, 0.4]}>
+          <boxGeometry args={[0.3, 0.15, 3.8]} />
+          <meshStandardMaterial color="#0f172a" />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Debris({ hazard }: { hazard: MovingHazard }) {
+  // Rolls the way it's going, by however far it has gone
+  const rolled = (hazard.age * -hazard.vz) / hazard.size;
+  return (
+    <mesh position={[hazard.x, SNOW_SURFACE + hazard.size, hazard.z]} rotation={[-rolled, 0, 0]} castShadow>
+      <dodecahedronGeometry args={[hazard.size, 0]} />
+      <meshStandardMaterial color="#e2e8f0" roughness={0.9} />
+    </mesh>
+  );
+}
+
+function Chairlift({ hazard }: { hazard: MovingHazard }) {
+  const cableY = SNOW_SURFACE + CABLE_HEIGHT;
+  const seatY = SNOW_SURFACE + CHAIR_HEIGHT;
+  return (
+    <>
+      {chairliftTowers(hazard).map(z => (
+        <mesh key={z} position={[hazard.x, SNOW_SURFACE + 7, z]} castShadow>
+          <cylinderGeometry args={[0.4, 0.5, 14, 8]} />
+          <meshStandardMaterial color="#64748b" />
+        </mesh>
+      ))}
+      <mesh position={[hazard.x, cableY, hazard.z - hazard.size / 2]}>
+        <boxGeometry args={[0.1, 0.1, hazard.size]} />
+        <meshStandardMaterial color="#1e293b" />
+      </mesh>
+      {chairliftChairs(hazard).map((chair, index) => (
+        <group key={index}>
+          {/* The hanger leans with the swing, from the cable to the seat */}
+          <mesh
+            position={[(hazard.x + chair.x) / 2, (cableY + seatY) / 2, chair.z]}
+            rotation={[0, 0, Math.atan2(chair.x - hazard.x, cableY - seatY)]}
+          >
+            <boxGeometry args={[0.1, Math.hypot(chair.x - hazard.x, cableY - seatY), 0.1]} />
+            <meshStandardMaterial color="#1e293b" />
+          </mesh>
+          <mesh position={[chair.x, seatY + 0.75, chair.z]} castShadow>
+            <boxGeometry args={[2.5, 1.5, 1]} />
+            <meshStandardMaterial color="#2563eb" />
+          </mesh>
+        </group>
+      ))}
+    </>
+  );
+}
+
+// Draws any moving hazard from lib/hazards.ts
+export default function Hazard({ hazard }: { hazard: MovingHazard }) {
+  switch (hazard.kind) {
+    case 'skier':
+      return <OtherSkier hazard={hazard} />;
+    case 'snowmobile':
+      return <Snowmobile hazard={hazard} />;
+    case 'debris':
+      return <Debris hazard={hazard} />;
+    case 'chairlift':
+      return <Chairlift hazard={hazard} />;
+  }
+}
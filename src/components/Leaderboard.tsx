@@ -1,124 +1,631 @@
-import React, { useEffect } from 'react';
-import { getLeaderboard, addHighScore, checkHighScore, LeaderboardEntry } from '../lib/supabase';
+import React, { useEffect, useSyncExternalStore } from 'react';
+import {
+  Award,
+  BarChart3,
+  CalendarDays,
+  CloudOff,
+  Crown,
+  Download,
+  Flag,
+  Ghost,
+  PencilRuler,
+  Play,
+  RefreshCw,
+  Trophy,
+  Upload,
+} from 'lucide-react';
+import {
+  useLeaderboardService,
+  type LeaderboardEntry,
+  type DailyLeaderboardEntry,
+  type LeaderboardBoard,
+  type PlayerStanding,
+  type SubmitResult,
+} from '../lib/leaderboard';
+import { formatSeed } from '../lib/random';
+import { formatDailyKey, MODE_LABELS, type GameMode } from '../lib/daily';
+import { DIFFICULTY_LABELS, type Difficulty } from '../lib/difficulty';
+import { downloadReplay, isOutdatedReplay, readReplayFile, type Replay } from '../lib/replay';
+import { getPersonalBest } from '../lib/ghost';
+import { CRASH_CAUSE_LABELS, type CrashCause } from '../lib/runLog';
+import { formatRaceTime, MAX_MISSED_GATES, MISSED_GATE_PENALTY, type SlalomCourse, type SlalomResult } from '../lib/slalom';
+import { toInitials, useAccount } from '../lib/account';
+import AccountPanel from './AccountPanel';
+
+type LeaderboardTab = 'course' | 'all-time' | 'today' | 'winners';
 
 interface LeaderboardProps {
   isVisible: boolean;
   currentScore: number;
   currentTime: number;
+  seed: number;
+  difficulty: Difficulty; // Recorded with the score
+  mode: GameMode;
+  dailyKey: string;
+  recordedReplay: Replay | null; // The run that just ended, if it was played live
+  crashCause: CrashCause | null;
+  course: SlalomCourse | null; // Set for slalom runs
+  slalomResult: SlalomResult | null; // How the slalom run ended
+  isSpectating: boolean;
+  isCourseTest: boolean; // Played from the course editor, so it goes on no board
+  isCourseFileRun: boolean; // An endless run on a course file's slope, which has no board to go on
+  hadExtraLives: boolean; // Played with lives to spare, so it goes on no board either
   onRestart: () => void;
+  onSwitchMode: (mode: GameMode) => void;
+  onOpenEditor: () => void;
+  onShowStats: () => void;
+  onShowAchievements: () => void;
+  onWatchReplay: (replay: Replay) => void;
+  onRaceGhost: (replay: Replay) => void;
 }
 
-export default function Leaderboard({ isVisible, currentScore, currentTime, onRestart }: LeaderboardProps) {
+const TABS: { id: LeaderboardTab; label: string; icon: typeof Trophy }[] = [
+  { id: 'course', label: 'Course', icon: Flag },
+  { id: 'all-time', label: 'All-time', icon: Trophy },
+  { id: 'today', label: 'Today', icon: CalendarDays },
+  { id: 'winners', label: 'Past winners', icon: Crown },
+];
+
+export default function Leaderboard({
+  isVisible,
+  currentScore,
+  currentTime,
+  seed,
+  difficulty,
+  mode,
+  dailyKey,
+  recordedReplay,
+  crashCause,
+  course,
+  slalomResult,
+  isSpectating,
+  isCourseTest,
+  isCourseFileRun,
+  hadExtraLives,
+  onRestart,
+  onSwitchMode,
+  onOpenEditor,
+  onShowStats,
+  onShowAchievements,
+  onWatchReplay,
+  onRaceGhost,
+}: LeaderboardProps) {
+  const service = useLeaderboardService();
   const [playerName, setPlayerName] = React.useState('');
   const [hasSubmitted, setHasSubmitted] = React.useState(false);
   const [isHighScore, setIsHighScore] = React.useState(false);
+  const highlightTab: LeaderboardTab = course ? 'course' : mode === 'daily' ? 'today' : 'all-time';
+  const [tab, setTab] = React.useState<LeaderboardTab>(highlightTab);
   const [leaderboard, setLeaderboard] = React.useState<LeaderboardEntry[]>([]);
+  const [courseBoard, setCourseBoard] = React.useState<LeaderboardEntry[]>([]);
+  const [dailyBoard, setDailyBoard] = React.useState<DailyLeaderboardEntry[]>([]);
+  const [winners, setWinners] = React.useState<DailyLeaderboardEntry[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
+  const [replayError, setReplayError] = React.useState<string | null>(null);
+  const [submitResult, setSubmitResult] = React.useState<SubmitResult | null>(null);
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const [standings, setStandings] = React.useState<{
+    allTime: PlayerStanding | null;
+    daily: PlayerStanding | null;
+    course: PlayerStanding | null;
+  }>({ allTime: null, daily: null, course: null });
+  const account = useAccount();
+  const accountId = account.status === 'signed-in' ? account.user.id : null;
+  // Signed-in players post under their profile's initials instead of typing them
+  const profileInitials = account.status === 'signed-in' ? account.profile?.initials ?? null : null;
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const pendingScores = useSyncExternalStore(service.subscribePendingScores, service.getPendingScores);
+  const courseKey = course?.key ?? null;
+  // Only a finished slalom run has a time worth ranking
+  const finishedTime = slalomResult?.status === 'finished' ? slalomResult.totalTime : null;
+
+  const refreshBoards = React.useCallback(async () => {
+    const [board, daily, pastWinners, courseTimes] = await Promise.all([
+      service.getLeaderboard(),
+      service.getDailyLeaderboard(dailyKey),
+      service.getDailyWinners(dailyKey),
+      courseKey ? service.getSlalomLeaderboard(courseKey) : [],
+    ]);
+    setLeaderboard(board);
+    setDailyBoard(daily);
+    setWinners(pastWinners);
+    setCourseBoard(courseTimes);
+  }, [service, dailyKey, courseKey]);
+
+  const refreshStandings = React.useCallback(async () => {
+    if (!accountId) {
+      setStandings({ allTime: null, daily: null, course: null });
+      return;
+    }
+    const [allTime, daily, courseStanding] = await Promise.all([
+      service.getStanding('all-time', null),
+      service.getStanding('daily', dailyKey),
+      courseKey ? service.getStanding('slalom', courseKey) : null,
+    ]);
+    setStandings({ allTime, daily, course: courseStanding });
+  }, [service, dailyKey, courseKey, accountId]);
+
+  useEffect(() => {
+    if (isVisible) {
+      refreshStandings();
+    }
+  }, [isVisible, refreshStandings]);
+
+  const handleScoresClaimed = () => {
+    refreshBoards();
+    refreshStandings();
+  };
+
+  // Queued scores merge into the boards, so re-read them whenever the queue changes
+  useEffect(() => {
+    if (isVisible) {
+      refreshBoards();
+    }
+  }, [isVisible, pendingScores, refreshBoards]);
 
   useEffect(() => {
     if (isVisible) {
       const checkScore = async () => {
-        // Check if score qualifies for top 10
-        // This will return true if:
-        // 1. There are fewer than 10 scores on the leaderboard
-        // 2. OR the player's score is higher than the lowest score in the top 10
-        const isHigh = await checkHighScore(currentScore);
+        // Check if score qualifies for the top 10 of the board this run counts towards.
+        // Daily Challenge runs only compete on today's board, and slalom runs on their course's.
+        let isHigh = false;
+        if (isSpectating || isCourseTest || isCourseFileRun || hadExtraLives) {
+          // Replays, course tests, endless runs on a course file and runs with extra lives never go on the boards
+        } else if (courseKey) {
+          isHigh = finishedTime !== null && await service.checkSlalomTime(finishedTime, courseKey);
+        } else if (mode === 'daily') {
+          isHigh = await service.checkDailyHighScore(currentScore, dailyKey);
+        } else {
+          isHigh = await service.checkHighScore(currentScore);
+        }
         setIsHighScore(isHigh);
-        
-        // Get the current leaderboard to display
-        const board = await getLeaderboard();
-        setLeaderboard(board);
+
+        // Get the current boards to display
+        await refreshBoards();
         setIsLoading(false);
       };
       checkScore();
     }
-  }, [isVisible, currentScore]);
+  }, [service, isVisible, currentScore, mode, dailyKey, courseKey, finishedTime, isSpectating, isCourseTest, isCourseFileRun, hadExtraLives, refreshBoards]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (playerName.trim()) {
+    const name = profileInitials ?? playerName.trim().toUpperCase();
+    if (name) {
       setIsLoading(true);
-      const success = await addHighScore(playerName.trim().toUpperCase(), currentScore, currentTime);
-      if (success) {
-        const updatedBoard = await getLeaderboard();
-        setLeaderboard(updatedBoard);
+      let result: SubmitResult;
+      if (courseKey && finishedTime !== null) {
+        result = await service.addSlalomTime(name, finishedTime, seed, courseKey, difficulty, recordedReplay);
+      } else if (mode === 'daily') {
+        result = await service.addDailyScore(name, currentScore, currentTime, seed, dailyKey, difficulty, recordedReplay);
+      } else {
+        result = await service.addHighScore(name, currentScore, currentTime, seed, difficulty, recordedReplay);
+      }
+      setSubmitResult(result);
+      if (result.status !== 'rejected') {
+        await Promise.all([refreshBoards(), refreshStandings()]);
         setHasSubmitted(true);
       }
       setIsLoading(false);
     }
   };
 
+  const handleSync = async () => {
+    setIsSyncing(true);
+    await service.syncPendingScores();
+    setIsSyncing(false);
+  };
+
+  const loadReplay = async (
+    board: LeaderboardBoard,
+    entry: LeaderboardEntry,
+    onLoaded: (replay: Replay) => void
+  ) => {
+    setReplayError(null);
+    const replay = await service.getReplay(board, entry.id);
+    if (replay) {
+      onLoaded(replay);
+    } else {
+      setReplayError(`Couldn't load ${entry.name}'s replay`);
+    }
+  };
+
+  const handleWatch = (board: LeaderboardBoard, entry: LeaderboardEntry) => loadReplay(board, entry, onWatchReplay);
+  const handleRace = (board: LeaderboardBoard, entry: LeaderboardEntry) => loadReplay(board, entry, onRaceGhost);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReplayError(null);
+    try {
+      onWatchReplay(await readReplayFile(file));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Invalid replay file');
+    }
+  };
+
   if (!isVisible) return null;
 
+  const personalBest = getPersonalBest();
+  const standing = { course: standings.course, 'all-time': standings.allTime, today: standings.daily, winners: null }[tab];
+  const tabs = course ? TABS : TABS.filter(({ id }) => id !== 'course');
+  const otherModes = (Object.keys(MODE_LABELS) as GameMode[]).filter(m => m !== mode);
+
+  let title = 'Game Over!';
+  if (isSpectating) title = 'Replay Finished';
+  else if (slalomResult?.status === 'finished') title = 'Finished!';
+  else if (slalomResult?.status === 'disqualified') title = 'Disqualified';
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-20">
       <div className="bg-black/50 p-8 rounded-lg max-w-md w-full backdrop-blur-sm">
-        <h2 className="text-2xl font-bold text-white mb-4">Game Over!</h2>
+        <h2 className="text-2xl font-bold text-white mb-4">{title}</h2>
         <div className="mb-6">
-          <p className="text-white">Final Score: {Math.floor(currentScore)}</p>
-          <p className="text-white">Time Survived: {Math.floor(currentTime)}s</p>
+          {mode === 'daily' && (
+            <p className="text-sky-300 text-sm mb-1">Daily Challenge · {formatDailyKey(dailyKey)}</p>
+          )}
+          {course && slalomResult ? (
+            <>
+              <p className="text-sky-300 text-sm mb-1">Slalom · {course.name}</p>
+              {slalomResult.status === 'finished' && (
+                <p className="text-white">Time: <span className="font-mono">{formatRaceTime(slalomResult.totalTime)}</span></p>
+              )}
+              {slalomResult.status === 'disqualified' && (
+                <p className="text-white">Missed more than {MAX_MISSED_GATES} gates</p>
+              )}
+              {slalomResult.missedGates > 0 && slalomResult.status === 'finished' && (
+                <p className="text-white/60 text-sm">
+                  {formatRaceTime(slalomResult.time)} + {slalomResult.missedGates * MISSED_GATE_PENALTY}s for{' '}
+                  {slalomResult.missedGates} missed {slalomResult.missedGates === 1 ? 'gate' : 'gates'}
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-white">Final Score: {Math.floor(currentScore)}</p>
+              <p className="text-white">Time Survived: {Math.floor(currentTime)}s</p>
+            </>
+          )}
+          {crashCause && <p className="text-white/60 text-sm">Taken out by: {CRASH_CAUSE_LABELS[crashCause]}</p>}
+          {hadExtraLives && <p className="text-white/60 text-sm">Played with extra lives, so it's not on the boards</p>}
+          <p className="text-white/60 text-sm font-mono">Seed: {formatSeed(seed)}</p>
         </div>
 
+        <AccountPanel onScoresClaimed={handleScoresClaimed} />
+
         {isLoading ? (
           <div className="text-center text-white mb-6">
             Loading...
           </div>
         ) : (
           <>
+            {submitResult?.status === 'pending' && (
+              <p className="flex items-center gap-2 text-amber-200 text-sm mb-4">
+                <CloudOff size={14} />
+                Saved locally, pending upload. It will be submitted when you're back online.
+              </p>
+            )}
+            {submitResult?.status === 'rejected' && (
+              <p className="text-red-300 text-sm mb-4">Score not accepted: {submitResult.message}</p>
+            )}
+
             {isHighScore && !hasSubmitted && (
               <form onSubmit={handleSubmit} className="mb-6">
-                <h3 className="text-white text-lg mb-2">You Made the Top 10!</h3>
+                <h3 className="text-white text-lg mb-2">
+                  {mode === 'daily' ? "You Made Today's Top 10!" : course ? "You Made This Course's Top 10!" : 'You Made the Top 10!'}
+                </h3>
                 <div className="flex gap-2">
-                  <input
-                    type="text"
-                    maxLength={3}
-                    placeholder="Enter your initials"
-                    value={playerName}
-                    onChange={(e) => setPlayerName(e.target.value.toUpperCase())}
-                    className="bg-white/10 text-white border border-white/20 rounded px-3 py-2 w-full"
-                  />
+                  {profileInitials === null && (
+                    <input
+                      type="text"
+                      maxLength={3}
+                      placeholder="Enter your initials"
+                      value={playerName}
+                      onChange={(e) => setPlayerName(toInitials(e.target.value))}
+                      className="bg-white/10 text-white border border-white/20 rounded px-3 py-2 w-full"
+                    />
+                  )}
                   <button
                     type="submit"
-                    className="bg-white/20 text-white px-4 py-2 rounded hover:bg-white/30 transition"
+                    className={`bg-white/20 text-white px-4 py-2 rounded hover:bg-white/30 transition ${
+                      profileInitials === null ? '' : 'w-full'
+                    }`}
                   >
-                    Submit
+                    {profileInitials === null ? 'Submit' : `Submit as ${profileInitials}`}
                   </button>
                 </div>
               </form>
             )}
 
             <div className="mb-6">
-              <h3 className="text-white text-lg mb-2">Global Leaderboard</h3>
-              <div className="space-y-2">
-                {leaderboard.map((entry) => (
-                  <div
-                    key={entry.id}
-                    className={`flex justify-between text-white ${
-                      entry.score === Math.floor(currentScore) && hasSubmitted ? 'bg-white/20' : ''
-                    } p-2 rounded`}
+              {service.isLocalOnly && (
+                <p className="text-white/50 text-xs mb-2">No leaderboard server configured. Scores are saved on this device.</p>
+              )}
+              {!service.isLocalOnly && pendingScores.length > 0 && (
+                <div className="flex items-center justify-between text-amber-200 text-xs mb-2">
+                  <span className="flex items-center gap-1">
+                    <CloudOff size={12} />
+                    {pendingScores.length} {pendingScores.length === 1 ? 'score' : 'scores'} pending upload
+                  </span>
+                  <button
+                    onClick={handleSync}
+                    disabled={isSyncing}
+                    className="flex items-center gap-1 hover:text-white transition disabled:opacity-50"
                   >
-                    <span>{entry.name}</span>
-                    <span className="flex gap-4">
-                      <span>{Math.floor(entry.score)}</span>
-                      <span>{Math.floor(entry.time)}s</span>
-                    </span>
-                  </div>
+                    <RefreshCw size={12} className={isSyncing ? 'animate-spin' : ''} />
+                    Retry
+                  </button>
+                </div>
+              )}
+              <div className="flex gap-1 mb-3 bg-white/5 rounded p-1">
+                {tabs.map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setTab(id)}
+                    className={`flex-1 flex items-center justify-center gap-1 text-sm px-2 py-1 rounded transition ${
+                      tab === id ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'
+                    }`}
+                  >
+                    <Icon size={14} />
+                    {label}
+                  </button>
                 ))}
-                {leaderboard.length === 0 && (
-                  <p className="text-white/50 text-center">No high scores yet!</p>
-                )}
               </div>
+
+              {standing && (
+                <p className="text-sky-200 text-xs mb-2">
+                  {tab === 'course'
+                    ? `Your best: ${formatRaceTime(standing.score / 1000)} · #${standing.rank}`
+                    : `Your best: ${Math.floor(standing.score)} · ${Math.floor(standing.time)}s · #${standing.rank}`}
+                </p>
+              )}
+              {tab === 'course' && (
+                <ScoreList
+                  entries={courseBoard}
+                  accountId={accountId}
+                  highlightScore={hasSubmitted && finishedTime !== null ? Math.round(finishedTime * 1000) : null}
+                  emptyText="Nobody has finished this course yet!"
+                  timed
+                  onWatch={(entry) => handleWatch('slalom', entry)}
+                  onRace={(entry) => handleRace('slalom', entry)}
+                />
+              )}
+              {tab === 'all-time' && (
+                <ScoreList
+                  entries={leaderboard}
+                  accountId={accountId}
+                  highlightScore={hasSubmitted && highlightTab === 'all-time' ? Math.floor(currentScore) : null}
+                  emptyText="No high scores yet!"
+                  onWatch={(entry) => handleWatch('all-time', entry)}
+                  onRace={(entry) => handleRace('all-time', entry)}
+                />
+              )}
+              {tab === 'today' && (
+                <ScoreList
+                  entries={dailyBoard}
+                  accountId={accountId}
+                  highlightScore={hasSubmitted && highlightTab === 'today' ? Math.floor(currentScore) : null}
+                  emptyText="Nobody has finished today's challenge yet!"
+                  onWatch={(entry) => handleWatch('daily', entry)}
+                  onRace={(entry) => handleRace('daily', entry)}
+                />
+              )}
+              {tab === 'winners' && (
+                <div className="space-y-2">
+                  {winners.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className={`flex justify-between text-white p-2 rounded ${rowHighlight(entry, null, accountId)}`}
+                    >
+                      <span className="flex items-baseline gap-2">
+                        <span className="text-white/60 text-sm w-14">{formatDailyKey(entry.day)}</span>
+                        {entry.name}
+                        <DifficultyTag difficulty={entry.difficulty} />
+                      </span>
+                      <span className="flex gap-4">
+                        <span>{Math.floor(entry.score)}</span>
+                        <span>{Math.floor(entry.time)}s</span>
+                        <ReplayButtons
+                          entry={entry}
+                          onWatch={(e) => handleWatch('daily', e)}
+                          onRace={(e) => handleRace('daily', e)}
+                        />
+                      </span>
+                    </div>
+                  ))}
+                  {winners.length === 0 && (
+                    <p className="text-white/50 text-center">No previous challenges yet!</p>
+                  )}
+                </div>
+              )}
             </div>
           </>
         )}
 
-        <button
-          onClick={onRestart}
-          className="w-full bg-white/20 text-white px-4 py-2 rounded hover:bg-white/30 transition"
-        >
-          Play Again
-        </button>
+        <div className="flex gap-2 mb-2 text-sm">
+          {personalBest && !course && (
+            <button
+              onClick={() => onRaceGhost(personalBest)}
+              title={
+                isOutdatedReplay(personalBest)
+                  ? `Personal best: ${Math.floor(personalBest.score)}, from an older version of the game`
+                  : `Personal best: ${Math.floor(personalBest.score)}`
+              }
+              className="flex-1 flex items-center justify-center gap-1 text-white/70 px-3 py-1 rounded border border-white/20 hover:bg-white/10 transition"
+            >
+              <Ghost size={14} />
+              Race your best
+              {isOutdatedReplay(personalBest) && <span className="text-amber-300 text-xs">(older version)</span>}
+            </button>
+          )}
+          {recordedReplay && (
+            <button
+              onClick={() => downloadReplay(recordedReplay)}
+              className="flex-1 flex items-center justify-center gap-1 text-white/70 px-3 py-1 rounded border border-white/20 hover:bg-white/10 transition"
+            >
+              <Download size={14} />
+              Export replay
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-1 text-white/70 px-3 py-1 rounded border border-white/20 hover:bg-white/10 transition"
+          >
+            <Upload size={14} />
+            Import replay
+          </button>
+          <button
+            onClick={onShowStats}
+            className="flex-1 flex items-center justify-center gap-1 text-white/70 px-3 py-1 rounded border border-white/20 hover:bg-white/10 transition"
+          >
+            <BarChart3 size={14} />
+            Stats
+          </button>
+          <button
+            onClick={onShowAchievements}
+            title="Achievements"
+            className="flex items-center justify-center text-white/70 px-3 py-1 rounded border border-white/20 hover:bg-white/10 transition"
+          >
+            <Award size={14} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+        {replayError && <p className="text-red-300 text-sm mb-2">{replayError}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onRestart}
+            className="flex-1 bg-white/20 text-white px-4 py-2 rounded hover:bg-white/30 transition"
+          >
+            Play Again
+          </button>
+          {isCourseTest ? (
+            <button
+              onClick={onOpenEditor}
+              className="flex-1 flex items-center justify-center gap-2 bg-sky-500/30 text-white px-4 py-2 rounded hover:bg-sky-500/40 transition"
+            >
+              <PencilRuler size={16} /> Back to editor
+            </button>
+          ) : otherModes.map(m => (
+            <button
+              key={m}
+              onClick={() => onSwitchMode(m)}
+              className="flex-1 bg-sky-500/30 text-white px-4 py-2 rounded hover:bg-sky-500/40 transition"
+            >
+              {m === 'endless' ? 'Endless Run' : MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function ReplayButtons({
+  entry,
+  onWatch,
+  onRace,
+}: {
+  entry: LeaderboardEntry;
+  onWatch: (entry: LeaderboardEntry) => void;
+  onRace: (entry: LeaderboardEntry) => void;
+}) {
+  if (!entry.has_replay) {
+    return <span className="w-10" />;
+  }
+  return (
+    <span className="flex gap-2">
+      <button
+        onClick={() => onWatch(entry)}
+        title="Watch replay"
+        className="text-white/60 hover:text-white transition"
+      >
+        <Play size={16} />
+      </button>
+      <button
+        onClick={() => onRace(entry)}
+        title="Race this run's ghost"
+        className="text-white/60 hover:text-white transition"
+      >
+        <Ghost size={16} />
+      </button>
+    </span>
+  );
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: 'text-emerald-300/80',
+  normal: 'text-white/40',
+  hard: 'text-rose-300/80',
+};
+
+// Boards are shared across difficulties, so every entry says which one it was set on
+function DifficultyTag({ difficulty }: { difficulty: Difficulty }) {
+  return <span className={`text-xs ${DIFFICULTY_COLORS[difficulty]}`}>{DIFFICULTY_LABELS[difficulty]}</span>;
+}
+
+// The run just submitted stands out most, then the signed-in player's other entries
+function rowHighlight(entry: LeaderboardEntry, highlightScore: number | null, accountId: string | null) {
+  if (entry.score === highlightScore) return 'bg-white/20';
+  if (accountId && entry.user_id === accountId) return 'bg-sky-500/20';
+  return '';
+}
+
+function ScoreList({
+  entries,
+  accountId,
+  highlightScore,
+  emptyText,
+  timed = false,
+  onWatch,
+  onRace,
+}: {
+  entries: LeaderboardEntry[];
+  accountId: string | null; // The signed-in player's entries are tinted
+  highlightScore: number | null;
+  emptyText: string;
+  timed?: boolean; // Scores are finish times in milliseconds
+
+  onWatch: (entry: LeaderboardEntry) => void;
+  onRace: (entry: LeaderboardEntry) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className={`flex justify-between text-white ${rowHighlight(entry, highlightScore, accountId)} p-2 rounded`}
+        >
+          <span className="flex items-baseline gap-2">
+            <span className="text-white/40 text-sm w-5 text-right">{entry.rank}</span>
+            {entry.name}
+            {entry.seed !== null && (
+              <span className="text-xs text-white/40 font-mono">{formatSeed(entry.seed)}</span>
+            )}
+            <DifficultyTag difficulty={entry.difficulty} />
+            {entry.pending && (
+              <span title="Saved locally, pending upload" className="text-amber-200 self-center">
+                <CloudOff size={12} />
+              </span>
+            )}
+          </span>
+          <span className="flex gap-4">
+            {timed ? (
+              <span className="font-mono">{formatRaceTime(entry.score / 1000)}</span>
+            ) : (
+              <>
+                <span>{Math.floor(entry.score)}</span>
+                <span>{Math.floor(entry.time)}s</span>
+              </>
+            )}
+            <ReplayButtons entry={entry} onWatch={onWatch} onRace={onRace} />
+          </span>
+        </div>
+      ))}
+      {entries.length === 0 && (
+        <p className="text-white/50 text-center">{emptyText}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { X } from 'lucide-react';
+import { useAccountId } from '../lib/account';
+import { CRASH_CAUSE_LABELS, fetchAccountRunLogs, getRunLogs, subscribeRunLogs, type RunLog } from '../lib/runLog';
+import { mergeRunLogs, summarizeRuns } from '../lib/runStats';
+import type { GameMode } from '../lib/daily';
+
+type ModeFilter = 'all' | GameMode;
+
+const FILTERS: { id: ModeFilter; label: string }[] = [
+  { id: 'all', label: 'All runs' },
+  { id: 'endless', label: 'Endless' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'slalom', label: 'Slalom' },
+];
+
+const CHART_RUNS = 50; // History charts show the most recent runs
+
+export default function StatsDashboard({ onClose }: { onClose: () => void }) {
+  const localLogs = useSyncExternalStore(subscribeRunLogs, getRunLogs);
+  const accountId = useAccountId();
+  const [accountLogs, setAccountLogs] = useState<RunLog[]>([]);
+  const [filter, setFilter] = useState<ModeFilter>('all');
+
+  // Signed-in players see runs from their other devices too
+  useEffect(() => {
+    if (!accountId) {
+      setAccountLogs([]);
+      return;
+    }
+    let cancelled = false;
+    fetchAccountRunLogs().then(logs => {
+      if (!cancelled) setAccountLogs(logs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  const logs = useMemo(() => {
+    const merged = mergeRunLogs(accountLogs, localLogs);
+    return filter === 'all' ? merged : merged.filter(log => log.mode === filter);
+  }, [accountLogs, localLogs, filter]);
+  const summary = useMemo(() => summarizeRuns(logs), [logs]);
+  const recent = logs.slice(-CHART_RUNS);
+  const maxCauseCount = summary.crashCauses[0]?.count ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-40">
+      <div className="bg-black/50 p-8 rounded-lg max-w-lg w-full backdrop-blur-sm text-white max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">Your Stats</h2>
+          <button onClick={onClose} title="Close" className="text-white/60 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-1 mb-4 bg-white/5 rounded p-1">
+          {FILTERS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`flex-1 text-sm px-2 py-1 rounded transition ${
+                filter === id ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {summary.runs === 0 ? (
+          <p className="text-white/50 text-center my-8">No runs yet. Get out there!</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2 mb-6 text-center">
+              <StatCard label="Runs" value={summary.runs.toString()} />
+              <StatCard label="Best score" value={Math.floor(summary.bestScore).toString()} />
+              <StatCard label="Avg score" value={Math.floor(summary.averageScore).toString()} />
+              <StatCard label="Top speed" value={`${summary.topSpeed.toFixed(1)}x`} />
+              <StatCard label="Best time" value={`${Math.floor(summary.bestTime)}s`} />
+              <StatCard label="Avg time" value={`${Math.floor(summary.averageTime)}s`} />
+              <StatCard label="Longest run" value={`${Math.floor(summary.bestDistance)}m`} />
+              <StatCard label="Total skied" value={formatDistance(summary.totalDistance)} />
+            </div>
+
+            <h3 className="text-sm text-white/60 mb-1">Score, last {recent.length} runs</h3>
+            <LineChart values={recent.map(log => log.score)} color="#7dd3fc" />
+
+            <h3 className="text-sm text-white/60 mb-1 mt-4">Survival time, last {recent.length} runs</h3>
+            <LineChart values={recent.map(log => log.time)} color="#6ee7b7" unit="s" />
+
+            <h3 className="text-sm text-white/60 mb-2 mt-4">Crash causes</h3>
+            <div className="space-y-1">
+              {summary.crashCauses.map(({ cause, count }) => (
+                <div key={cause} className="flex items-center gap-2 text-sm">
+                  <span className="w-12">{CRASH_CAUSE_LABELS[cause]}</span>
+                  <span className="flex-1 bg-white/5 rounded h-3">
+                    <span
+                      className="block bg-rose-300/70 rounded h-3"
+                      style={{ width: `${(count / maxCauseCount) * 100}%` }}
+                    />
+                  </span>
+                  <span className="w-16 text-right text-white/60">
+                    {count} · {Math.round((count / summary.runs) * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white/5 rounded p-2">
+      <p className="text-lg font-bold">{value}</p>
+      <p className="text-xs text-white/50">{label}</p>
+    </div>
+  );
+}
+
+function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(1)}km` : `${Math.floor(metres)}m`;
+}
+
+// A minimal SVG line chart, oldest run on the left, scaled from zero to the best value
+function LineChart({ values, color, unit = '' }: { values: number[]; color: string; unit?: string }) {
+  const width = 300;
+  const height = 80;
+  const max = Math.max(1, ...values);
+  const x = (i: number) => (values.length === 1 ? width / 2 : (i / (values.length - 1)) * width);
+  const y = (value: number) => height - (value / max) * height;
+  const points = values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20 bg-white/5 rounded overflow-visible" preserveAspectRatio="none">
+        <polyline points={points} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <span className="absolute top-0 right-1 text-xs text-white/40">
+        {Math.floor(max)}{unit}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useSyncExternalStore } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabase';
+
+// --- Player Accounts ---
+// Optional sign-in through Supabase Auth. Guests can still play and post
+// scores with typed initials; an account links scores to a profile instead.
+
+export interface Profile {
+  id: string;
+  display_name: string;
+  initials: string; // Posted to the boards in place of typed initials
+}
+
+export type AccountState =
+  | { status: 'unavailable' } // No Supabase project configured
+  | { status: 'loading' }
+  | { status: 'signed-out' }
+  | { status: 'signed-in'; user: User; profile: Profile | null };
+
+export const INITIALS_PATTERN = /^[A-Z0-9]{1,3}$/;
+
+// Typed initials as the server takes them: upper case, leaving out anything
+// but letters and digits
+export function toInitials(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+}
+
+let state: AccountState = { status: 'loading' };
+let started = false;
+const listeners = new Set<() => void>();
+
+function setState(next: AccountState) {
+  state = next;
+  listeners.forEach(listener => listener());
+}
+
+async function fetchProfile(userId: string): Promise<Profile | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, display_name, initials')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching profile:', error);
+    return null;
+  }
+  return data as Profile | null;
+}
+
+async function applySession(session: Session | null) {
+  if (!session) {
+    setState({ status: 'signed-out' });
+    return;
+  }
+  const profile = await fetchProfile(session.user.id);
+  setState({ status: 'signed-in', user: session.user, profile });
+}
+
+// Starts listening to the auth session on first subscription, so a game that
+// never shows an account never touches Supabase Auth
+function start() {
+  started = true;
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    setState({ status: 'unavailable' });
+    return;
+  }
+  // The initial session arrives as an INITIAL_SESSION event, including one
+  // restored from a magic link in the URL
+  supabase.auth.onAuthStateChange((_event, session) => {
+    // Querying from inside the callback can deadlock the auth client, so defer it
+    setTimeout(() => applySession(session), 0);
+  });
+}
+
+export function subscribeAccount(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!started) start();
+  return () => listeners.delete(listener);
+}
+
+export function getAccountState(): AccountState {
+  return state;
+}
+
+export function useAccount(): AccountState {
+  return useSyncExternalStore(subscribeAccount, getAccountState);
+}
+
+// The id of the signed-in player, if any
+export function useAccountId(): string | null {
+  const account = useAccount();
+  return account.status === 'signed-in' ? account.user.id : null;
+}
+
+// --- Actions ---
+// Each resolves to an error message, or null on success
+
+export async function signInWithEmail(email: string): Promise<string | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return 'Accounts need a leaderboard server';
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin + window.location.pathname },
+  });
+  return error ? error.message : null;
+}
+
+export async function signOut(): Promise<string | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+  const { error } = await supabase.auth.signOut();
+  return error ? error.message : null;
+}
+
+export async function updateProfile(changes: Pick<Profile, 'display_name' | 'initials'>): Promise<string | null> {
+  const supabase = getSupabaseClient();
+  const account = state;
+  if (!supabase || account.status !== 'signed-in') return 'Sign in to edit your profile';
+  if (!INITIALS_PATTERN.test(changes.initials)) return 'Initials must be 1-3 letters or digits';
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('id', account.user.id)
+    .select('id, display_name, initials')
+    .single();
+  if (error) return error.message;
+
+  // Unless the player signed out meanwhile
+  if (state === account) {
+    setState({ ...account, profile: data as Profile });
+  }
+  return null;
+}
+// --- End Actions ---
+// --- End Player Accounts ---
@@ -0,0 +1,130 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useAccountId } from './account';
+import { getConfiguredSupabaseClient } from './leaderboard';
+
+// --- Unlocked Achievements ---
+// Saved per player: under the account when signed in (and on the server, so
+// they follow the player between devices), or under "guest" on this device.
+
+export interface UnlockedAchievement {
+  id: string;
+  unlockedAt: string;
+}
+
+const STORAGE_PREFIX = 'vibeskiing:achievements:';
+
+const cache = new Map<string, UnlockedAchievement[]>();
+const listeners = new Set<() => void>();
+
+function storageKey(playerId: string | null) {
+  return STORAGE_PREFIX + (playerId ?? 'guest');
+}
+
+function read(playerId: string | null): UnlockedAchievement[] {
+  try {
+    const stored = localStorage.getItem(storageKey(playerId));
+    return stored ? (JSON.parse(stored) as UnlockedAchievement[]) : [];
+  } catch (err) {
+    console.error('Discarding unreadable achievements:', err);
+    return [];
+  }
+}
+
+function write(playerId: string | null, unlocked: UnlockedAchievement[]) {
+  cache.set(storageKey(playerId), unlocked);
+  try {
+    localStorage.setItem(storageKey(playerId), JSON.stringify(unlocked));
+  } catch (err) {
+    console.error('Error saving achievements:', err);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Returns the same array until the player's achievements change, so it works
+// as a useSyncExternalStore snapshot
+export function getUnlockedAchievements(playerId: string | null): UnlockedAchievement[] {
+  const key = storageKey(playerId);
+  if (!cache.has(key)) {
+    cache.set(key, read(playerId));
+  }
+  return cache.get(key)!;
+}
+
+export function subscribeAchievements(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Records achievements completed in a run and returns the ids that weren't
+// unlocked before, i.e. the ones worth announcing
+export function unlockAchievements(playerId: string | null, ids: string[]): string[] {
+  const current = getUnlockedAchievements(playerId);
+  const fresh = ids.filter(id => !current.some(a => a.id === id));
+  if (fresh.length === 0) return [];
+
+  const unlockedAt = new Date().toISOString();
+  const added = fresh.map(id => ({ id, unlockedAt }));
+  write(playerId, [...current, ...added]);
+  if (playerId) {
+    uploadAchievements(playerId, added);
+  }
+  return fresh;
+}
+
+// --- Server Sync ---
+
+async function uploadAchievements(playerId: string, unlocked: UnlockedAchievement[]) {
+  const supabase = getConfiguredSupabaseClient();
+  if (!supabase) return;
+
+  const { error } = await supabase.from('player_achievements').upsert(
+    unlocked.map(a => ({ user_id: playerId, achievement_id: a.id, unlocked_at: a.unlockedAt })),
+    { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+  );
+  if (error) {
+    console.error('Error saving achievements:', error);
+  }
+}
+
+// Merges the account's achievements from the server with the ones saved on
+// this device, and uploads any the server is missing (unlocked while offline)
+async function syncAccountAchievements(playerId: string) {
+  const supabase = getConfiguredSupabaseClient();
+  if (!supabase) return;
+
+  const { data, error } = await supabase
+    .from('player_achievements')
+    .select('achievement_id, unlocked_at')
+    .eq('user_id', playerId);
+  if (error) {
+    console.error('Error fetching achievements:', error);
+    return;
+  }
+
+  const remote = data.map(row => ({ id: row.achievement_id as string, unlockedAt: row.unlocked_at as string }));
+  const local = getUnlockedAchievements(playerId);
+  const missingRemotely = local.filter(a => !remote.some(r => r.id === a.id));
+  const missingLocally = remote.filter(r => !local.some(a => a.id === r.id));
+
+  if (missingLocally.length > 0) {
+    write(playerId, [...local, ...missingLocally]);
+  }
+  if (missingRemotely.length > 0) {
+    await uploadAchievements(playerId, missingRemotely);
+  }
+}
+// --- End Server Sync ---
+
+// The current player's unlocked achievements, synced with the server once signed in
+export function useUnlockedAchievements(): UnlockedAchievement[] {
+  const playerId = useAccountId();
+
+  useEffect(() => {
+    if (playerId) {
+      syncAccountAchievements(playerId);
+    }
+  }, [playerId]);
+
+  return useSyncExternalStore(subscribeAchievements, () => getUnlockedAchievements(playerId));
+}
+// --- End Unlocked Achievements ---
@@ -0,0 +1,178 @@
+import { MAX_SPEED } from './movement';
+import { MAX_MULTIPLIER } from './scoring';
+import type { GameEvent } from './gameEvents';
+
+// --- Achievements ---
+// Goals beyond the score. Each is checked against the running totals of the
+// current run, built up from GameScene's gameplay events.
+
+export interface RunTotals {
+  time: number;
+  topSpeed: number;
+  distance: number;
+  yetiDodges: number;
+  nearPasses: number;
+  closeTrees: number; // Trees passed within NEAR_MISS_DISTANCE
+  threads: number;
+  bestMultiplier: number;
+  mostSpins: number; // In a single landed trick
+  cleanFinish: boolean; // A slalom course finished without missing a gate
+  crashed: boolean;
+  caughtByYeti: boolean;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  isMet: (run: RunTotals) => boolean;
+}
+
+// Ids are persisted, so never rename one; add a new achievement instead
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-tumble',
+    title: 'First Tumble',
+    description: 'Finish your first run',
+    isMet: run => run.crashed,
+  },
+  {
+    id: 'survive-60',
+    title: 'Still Standing',
+    description: 'Survive 60 seconds in one run',
+    isMet: run => run.time >= 60,
+  },
+  {
+    id: 'survive-180',
+    title: 'Mountain Goat',
+    description: 'Survive 3 minutes in one run',
+    isMet: run => run.time >= 180,
+  },
+  {
+    id: 'max-speed',
+    title: 'Terminal Velocity',
+    description: `Reach the top speed of ${MAX_SPEED.toFixed(1)}x`,
+    isMet: run => run.topSpeed >= MAX_SPEED,
+  },
+  {
+    id: 'long-haul',
+    title: 'Long Haul',
+    description: 'Ski 10,000m in one run',
+    isMet: run => run.distance >= 10000,
+  },
+  {
+    id: 'yeti-dodger',
+    title: 'Yeti Dodger',
+    description: 'Dodge the yeti 5 times in one run',
+    isMet: run => run.yetiDodges >= 5,
+  },
+  {
+    id: 'tree-hugger',
+    title: 'Tree Hugger',
+    description: 'Near-miss 100 trees in one run',
+    isMet: run => run.closeTrees >= 100,
+  },
+  {
+    id: 'close-shave',
+    title: 'Close Shave',
+    description: 'Near-miss 25 obstacles in one run',
+    isMet: run => run.nearPasses >= 25,
+  },
+  {
+    id: 'yeti-snack',
+    title: 'Yeti Snack',
+    description: 'Get caught by the yeti',
+    isMet: run => run.caughtByYeti,
+  },
+  {
+    id: 'thread-needle',
+    title: 'Thread the Needle',
+    description: 'Thread between two obstacles 10 times in one run',
+    isMet: run => run.threads >= 10,
+  },
+  {
+    id: 'combo-max',
+    title: 'On Fire',
+    description: `Build a combo up to x${MAX_MULTIPLIER}`,
+    isMet: run => run.bestMultiplier >= MAX_MULTIPLIER,
+  },
+  {
+    id: 'spin-720',
+    title: 'Spin Cycle',
+    description: 'Land a 720',
+    isMet: run => run.mostSpins >= 2,
+  },
+  {
+    id: 'clean-slalom',
+    title: 'Gatekeeper',
+    description: 'Finish a slalom course without missing a gate',
+    isMet: run => run.cleanFinish,
+  },
+];
+
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find(a => a.id === id);
+}
+
+export interface AchievementTracker {
+  // Returns the achievements this event completed, each at most once per run.
+  // Whether they were already unlocked in an earlier run is for the store to decide.
+  handle(event: GameEvent): Achievement[];
+}
+
+// Follows one run; create a new tracker for each attempt
+export function createAchievementTracker(): AchievementTracker {
+  const run: RunTotals = {
+    time: 0,
+    topSpeed: 0,
+    distance: 0,
+    yetiDodges: 0,
+    nearPasses: 0,
+    closeTrees: 0,
+    threads: 0,
+    bestMultiplier: 1,
+    mostSpins: 0,
+    cleanFinish: false,
+    crashed: false,
+    caughtByYeti: false,
+  };
+  const met = new Set<string>();
+
+  return {
+    handle(event) {
+      switch (event.type) {
+        case 'progress':
+          run.time = event.time;
+          run.topSpeed = Math.max(run.topSpeed, event.speed);
+          run.distance = event.distance;
+          break;
+        case 'near-pass':
+          run.nearPasses++;
+          if (event.obstacle === 'tree') run.closeTrees++;
+          run.bestMultiplier = Math.max(run.bestMultiplier, event.multiplier);
+          break;
+        case 'thread':
+          run.threads++;
+          break;
+        case 'trick':
+          run.mostSpins = Math.max(run.mostSpins, event.spins);
+          break;
+        case 'yeti-dodged':
+          run.yetiDodges++;
+          break;
+        case 'finish':
+          run.cleanFinish = event.missedGates === 0;
+          break;
+        case 'crash':
+          run.crashed = true;
+          run.caughtByYeti = event.cause === 'yeti';
+          break;
+      }
+
+      const completed = ACHIEVEMENTS.filter(a => !met.has(a.id) && a.isMet(run));
+      completed.forEach(a => met.add(a.id));
+      return completed;
+    },
+  };
+}
+// --- End Achievements ---
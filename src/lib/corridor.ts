@@ -0,0 +1,191 @@
+import { createRng, deriveSeed, RNG_STREAMS } from './random';
+import { maxHeading, moveSkier, SKIER_HITBOX, speedAtDistance, updateSpeed, type SkierState, type SpeedRamp } from './movement';
+import { NO_INPUT, SIM_STEP } from './replay';
+
+// --- Passable Corridor ---
+// Obstacles are scattered independently, so at speed they can line up into a
+// wall the skier can't steer around in time. Every generated segment keeps a
+// corridor clear instead: the line a skier actually takes down the segment,
+// traced with the same movement as the run itself, so it never turns faster
+// or further off the fall line than the skis can at the speed they'll be
+// going there. The corridor follows the gaps already in the layout, so only
+// the obstacles that would still block it are taken out.
+//
+// Segments are generated on their own and in any order, so the corridor meets
+// each segment boundary at a fixed point (an anchor) derived from the seed,
+// running straight down the fall line for a knot either side of it.
+
+const KNOT_SPACING = 10; // Distance down the slope between the corridor's changes of steering
+const MAX_CORRIDOR_X = 40; // Keeps the corridor clear of the slope's edges
+const ANCHOR_DRIFT = 0.6; // Share of a segment's steering the anchors use up, leaving room to dodge
+const MARGIN = 1; // Slack for steering a tick late and for meeting an anchor to the nearest unit
+const HEADING_STEP = 0.1; // How finely lines skied with the skis at different angles are told apart
+const TURNS = [-1, 0, 1]; // Steering held across each knot spacing
+
+// Where an obstacle stands and how far its collision box reaches across the slope
+export interface Footprint {
+  x: number;
+  z: number;
+  halfWidth: number;
+}
+
+// Where the skier following the corridor is on each simulation step
+export interface CorridorPoint {
+  x: number;
+  z: number;
+  heading: number;
+}
+
+// Skis on to z = untilZ steering one way, the same as a run without a tuck or snowplow
+function skiTo(skier: SkierState, turn: number, untilZ: number, ramp: SpeedRamp, visit: (skier: SkierState) => void) {
+  const input = { ...NO_INPUT, steer: turn };
+  while (skier.z > untilZ) {
+    moveSkier(skier, input, SIM_STEP);
+    updateSpeed(skier, NO_INPUT, SIM_STEP, ramp);
+    visit(skier);
+  }
+}
+
+// How far across the skier gets over a segment whose top is `distance` down
+// the slope, keeping straight for a knot at either end: steering hard for half
+// of what's left, then letting the skis come back round to the fall line
+function segmentReach(distance: number, segmentLength: number, ramp: SpeedRamp): number {
+  const skier: SkierState = { x: 0, z: -distance, speed: speedAtDistance(distance, ramp), heading: 0 };
+  const turnLength = (segmentLength - 2 * KNOT_SPACING) / 2;
+  const noop = () => {};
+  skiTo(skier, 0, -distance - KNOT_SPACING, ramp, noop);
+  skiTo(skier, 1, -distance - KNOT_SPACING - turnLength, ramp, noop);
+  return skier.x;
+}
+
+// --- Anchors ---
+
+let anchorCache: { key: string; anchors: number[] } | null = null;
+
+// The corridor's x where boundary n (slope z = -n * segmentLength) crosses it.
+// Each anchor wanders from the one above, so consecutive ones stay in reach.
+function corridorAnchor(seed: number, n: number, segmentLength: number, ramp: SpeedRamp): number {
+  if (n <= 0) return 0; // Behind the start line, and the start itself
+  const key = `${seed}:${segmentLength}:${ramp.start}:${ramp.perSecond}:${ramp.max}`;
+  if (anchorCache?.key !== key) {
+    anchorCache = { key, anchors: [0] };
+  }
+  const { anchors } = anchorCache;
+  for (let i = anchors.length; i <= n; i++) {
+    const reach = segmentReach((i - 1) * segmentLength, segmentLength, ramp);
+    const drift = Math.round((createRng(deriveSeed(seed, RNG_STREAMS.corridor, i))() * 2 - 1) * reach * ANCHOR_DRIFT);
+    anchors.push(Math.max(-MAX_CORRIDOR_X, Math.min(MAX_CORRIDOR_X, anchors[i - 1] + drift)));
+  }
+  return anchors[n];
+}
+// --- End Anchors ---
+
+// Whether an obstacle's collision box could touch the skier's with the skier at `point`
+function blocksCorridor(footprint: Footprint, point: Pick<CorridorPoint, 'x' | 'z'>): boolean {
+  const reachX = SKIER_HITBOX.width / 2 + footprint.halfWidth + MARGIN;
+  const reachZ = SKIER_HITBOX.depth / 2 + footprint.halfWidth + MARGIN;
+  return Math.abs(footprint.x - point.x) < reachX && Math.abs(footprint.z - point.z) < reachZ;
+}
+
+// One way of skiing the segment down to a knot, kept per whole unit across
+// and step of heading at that knot
+interface CorridorNode {
+  skier: SkierState;
+  cost: number;
+  turn: number; // Steering held since the knot above
+  from: CorridorNode | null;
+}
+
+// The corridor from the top of the segment (endZ) to the bottom (startZ), a
+// point per simulation step. Tries each way of steering across each knot
+// spacing and picks the line that leaves the fewest obstacles in the way.
+export function corridorPath(
+  seed: number,
+  startZ: number,
+  endZ: number,
+  ramp: SpeedRamp,
+  footprints: Footprint[]
+): CorridorPoint[] {
+  const length = endZ - startZ;
+  const knots = Math.round(length / KNOT_SPACING);
+  const top = corridorAnchor(seed, Math.round(-endZ / length), length, ramp);
+  const bottom = corridorAnchor(seed, Math.round(-startZ / length), length, ramp);
+
+  const start: SkierState = { x: top, z: endZ, speed: speedAtDistance(-endZ, ramp), heading: 0 };
+  let nodes: CorridorNode[] = [{ skier: start, cost: 0, turn: 0, from: null }];
+  for (let k = 1; k <= knots; k++) {
+    const z = endZ - k * KNOT_SPACING;
+    const nearby = footprints.filter(f => f.z <= z + KNOT_SPACING * 2 && f.z >= z - KNOT_SPACING);
+    let entering = nodes;
+    if (k === knots) {
+      // Straight into the bottom anchor, from as close to it as the line gets
+      const straight = nodes.filter(node => Math.round(node.skier.heading / HEADING_STEP) === 0);
+      const pool = straight.length > 0 ? straight : nodes;
+      const closest = Math.min(...pool.map(node => Math.abs(Math.round(node.skier.x) - bottom)));
+      entering = pool.filter(node => Math.abs(Math.round(node.skier.x) - bottom) === closest);
+    }
+    const turns = k === 1 || k === knots ? [0] : TURNS;
+
+    const best = new Map<number, CorridorNode>();
+    for (const node of entering) {
+      for (const turn of turns) {
+        const skier = { ...node.skier };
+        const blocked: Footprint[] = [];
+        skiTo(skier, turn, z, ramp, point => {
+          for (const f of nearby) {
+            if (!blocked.includes(f) && blocksCorridor(f, point)) blocked.push(f);
+          }
+        });
+        // Lines that can no longer make it to the bottom anchor, even with
+        // the skis as far off the fall line as they go from here on
+        const reach = (z - startZ) * Math.tan(maxHeading(skier.speed)) + 1;
+        if (Math.abs(skier.x) > MAX_CORRIDOR_X || Math.abs(skier.x - bottom) > reach) continue;
+        // A little extra for steering keeps the corridor straight where it can be
+        const cost = node.cost + blocked.length + Math.abs(turn) * 0.01;
+        const key = Math.round(skier.x) * 1000 + Math.round(skier.heading / HEADING_STEP);
+        const existing = best.get(key);
+        if (!existing || cost < existing.cost) {
+          best.set(key, { skier, cost, turn, from: node });
+        }
+      }
+    }
+    nodes = [...best.values()];
+  }
+
+  // Ski the cheapest line again, keeping every step of it
+  const line: CorridorNode[] = [];
+  let node: CorridorNode | null = nodes.reduce((a, b) => (b.cost < a.cost ? b : a));
+  for (; node?.from; node = node.from) line.unshift(node);
+
+  const skier = { ...start };
+  const path: CorridorPoint[] = [{ x: skier.x, z: skier.z, heading: skier.heading }];
+  line.forEach(({ turn }, index) => {
+    skiTo(skier, turn, endZ - (index + 1) * KNOT_SPACING, ramp, ({ x, z, heading }) => path.push({ x, z, heading }));
+  });
+  return path;
+}
+
+// The obstacles that leave the segment's corridor clear. `footprint` returns
+// null for obstacles the skier can ride over.
+export function clearCorridor<T>(
+  obstacles: T[],
+  footprint: (obstacle: T) => Footprint | null,
+  seed: number,
+  startZ: number,
+  endZ: number,
+  ramp: SpeedRamp
+): T[] {
+  const footprints = obstacles.map(footprint);
+  const path = corridorPath(seed, startZ, endZ, ramp, footprints.filter(f => f !== null));
+
+  return obstacles.filter((_, index) => {
+    const f = footprints[index];
+    if (!f) return true;
+    // Jitter can push an obstacle past the segment's edge, where the corridor
+    // runs straight on through the anchor
+    if (f.z > endZ) return !blocksCorridor(f, { x: path[0].x, z: f.z });
+    if (f.z < startZ) return !blocksCorridor(f, { x: path[path.length - 1].x, z: f.z });
+    return !path.some(point => blocksCorridor(f, point));
+  });
+}
+// --- End Passable Corridor ---
@@ -0,0 +1,359 @@
+import { BOUNDARY_X } from './movement';
+import type { ObstacleKind } from './gameEvents';
+import type { SlalomGate } from './slalom';
+import { YETI_BEHAVIORS, type YetiBehavior } from './yeti';
+
+// --- Course Files ---
+// A hand-authored slope, shared as a JSON file. The slope is laid out as
+// segments running downhill from the start line; each one either lists its
+// obstacles or is left to the procedural generator, and the slope carries on
+// procedurally past the last one. Yetis can be set to appear as the skier
+// passes a point, and gates and a finish line are raced like a slalom course.
+// A course without a finish line is skied like an endless run instead, with
+// random yetis, hazards and pickups wherever the generator fills the slope.
+//
+//   {
+//     "format": "vibeskiing-course",
+//     "version": 1,
+//     "name": "Tutorial",
+//     "segments": [
+//       { "length": 200, "obstacles": [{ "type": "tree", "x": -10, "z": -50 }] },
+//       { "length": 400, "procedural": true }
+//     ],
+//     "yetis": [{ "z": -300, "from": "left", "behavior": "ambush" }],
+//     "gates": [{ "x": 0, "z": -100, "width": 10 }],
+//     "finishZ": -650
+//   }
+//
+// Obstacle z is measured within its segment, from 0 at the top to -length at
+// the bottom. Everything else uses slope z: 0 at the start line, negative
+// downhill, the same as the game.
+
+export const COURSE_FORMAT = 'vibeskiing-course';
+export const COURSE_VERSION = 1;
+
+// The keys of OBSTACLES in Game.tsx
+export const OBSTACLE_KINDS: readonly ObstacleKind[] = ['tree', 'rock', 'bump', 'pole', 'ramp'];
+
+export interface CourseObstacle {
+  type: ObstacleKind;
+  x: number;
+  z: number; // Within the segment
+}
+
+export interface CourseSegment {
+  length: number;
+  procedural: boolean; // Generated from the run seed instead of listing obstacles
+  obstacles: CourseObstacle[];
+}
+
+export interface YetiTrigger {
+  z: number; // Appears when the skier passes this point
+  from: 'left' | 'right'; // The side of the slope it runs in from
+  distance?: number; // How far ahead of the skier; left out, it's the same as a random yeti's
+  behavior?: YetiBehavior; // Left out, it runs straight across
+}
+
+export interface CourseFile {
+  format: typeof COURSE_FORMAT;
+  version: number;
+  name: string;
+  segments: CourseSegment[];
+  yetis: YetiTrigger[]; // In the order they're passed
+  gates: SlalomGate[]; // In the order they're skied
+  finishZ?: number; // Left out, along with the gates, the course is skied endlessly rather than raced
+}
+
+// Everything wrong with a file, so a designer can fix it in one go
+export class CourseFileError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `${problems[0]} (and ${problems.length - 1} more)`);
+    this.name = 'CourseFileError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Reads an optional array field, reporting anything that isn't one
+function readList(value: unknown, path: string, problems: string[]): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be a list`);
+    return [];
+  }
+  return value;
+}
+
+function parseObstacle(value: unknown, path: string, length: number, problems: string[]): CourseObstacle | null {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+  const { type, x, z } = value;
+  const before = problems.length;
+  if (!OBSTACLE_KINDS.includes(type as ObstacleKind)) {
+    problems.push(`${path}.type ${JSON.stringify(type)} isn't an obstacle (expected one of ${OBSTACLE_KINDS.join(', ')})`);
+  }
+  if (!isNumber(x) || Math.abs(x) > BOUNDARY_X) {
+    problems.push(`${path}.x must be a number between ${-BOUNDARY_X} and ${BOUNDARY_X}`);
+  }
+  if (!isNumber(z) || z > 0 || z < -length) {
+    problems.push(`${path}.z must be a number between 0 and ${-length} (the bottom of its segment)`);
+  }
+  return problems.length === before ? { type: type as ObstacleKind, x: x as number, z: z as number } : null;
+}
+
+function parseSegment(value: unknown, path: string, problems: string[]): CourseSegment | null {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+  const { length, procedural = false } = value;
+  if (!isNumber(length) || length <= 0) {
+    problems.push(`${path}.length must be a positive number`);
+    return null;
+  }
+  if (typeof procedural !== 'boolean') {
+    problems.push(`${path}.procedural must be true or false`);
+    return null;
+  }
+  const list = readList(value.obstacles, `${path}.obstacles`, problems);
+  if (procedural && list.length > 0) {
+    problems.push(`${path} is procedural, so it can't list obstacles`);
+    return null;
+  }
+  const obstacles = list.map((obstacle, i) => parseObstacle(obstacle, `${path}.obstacles[${i}]`, length, problems));
+  return { length, procedural, obstacles: obstacles.filter(o => o !== null) };
+}
+
+function parseYeti(value: unknown, path: string, problems: string[]): YetiTrigger | null {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+  const { z, from, distance, behavior } = value;
+  const before = problems.length;
+  if (!isNumber(z) || z >= 0) {
+    problems.push(`${path}.z must be a negative number (below the start line)`);
+  }
+  if (from !== 'left' && from !== 'right') {
+    problems.push(`${path}.from must be "left" or "right"`);
+  }
+  if (distance !== undefined && (!isNumber(distance) || distance <= 0)) {
+    problems.push(`${path}.distance must be a positive number`);
+  }
+  if (behavior !== undefined && !YETI_BEHAVIORS.includes(behavior as YetiBehavior)) {
+    problems.push(`${path}.behavior ${JSON.stringify(behavior)} isn't a yeti behavior (expected one of ${YETI_BEHAVIORS.join(', ')})`);
+  }
+  if (problems.length !== before) return null;
+  return {
+    z: z as number,
+    from: from as YetiTrigger['from'],
+    ...(distance === undefined ? {} : { distance: distance as number }),
+    ...(behavior === undefined ? {} : { behavior: behavior as YetiBehavior }),
+  };
+}
+
+function parseGate(value: unknown, path: string, previousZ: number, problems: string[]): SlalomGate | null {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+  const { x, z, width } = value;
+  const before = problems.length;
+  if (!isNumber(x) || Math.abs(x) > BOUNDARY_X) {
+    problems.push(`${path}.x must be a number between ${-BOUNDARY_X} and ${BOUNDARY_X}`);
+  }
+  if (!isNumber(z) || z >= previousZ) {
+    problems.push(`${path}.z must be a number below ${previousZ === 0 ? 'the start line' : 'the gate before it'}`);
+  }
+  if (!isNumber(width) || width <= 0) {
+    problems.push(`${path}.width must be a positive number`);
+  }
+  return problems.length === before ? { x: x as number, z: z as number, width: width as number } : null;
+}
+
+// Validates untrusted JSON (a course file, or one saved with a replay).
+// Throws a CourseFileError listing every problem found.
+export function parseCourseFile(data: unknown): CourseFile {
+  if (!isObject(data)) {
+    throw new CourseFileError(['Course must be a JSON object']);
+  }
+  if (data.format !== COURSE_FORMAT) {
+    throw new CourseFileError([`Not a course file: format must be "${COURSE_FORMAT}"`]);
+  }
+  if (data.version !== COURSE_VERSION) {
+    throw new CourseFileError([`Unsupported course version: ${String(data.version)}`]);
+  }
+
+  const problems: string[] = [];
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    problems.push('name must be text');
+  }
+
+  const segmentList = readList(data.segments, 'segments', problems);
+  if (Array.isArray(data.segments) && segmentList.length === 0) {
+    problems.push('segments must list at least one segment');
+  }
+  const segments = segmentList.map((segment, i) => parseSegment(segment, `segments[${i}]`, problems));
+
+  const yetis = readList(data.yetis, 'yetis', problems).map((yeti, i) => parseYeti(yeti, `yetis[${i}]`, problems));
+
+  const gates: (SlalomGate | null)[] = [];
+  let lastZ = 0;
+  readList(data.gates, 'gates', problems).forEach((value, i) => {
+    const gate = parseGate(value, `gates[${i}]`, lastZ, problems);
+    gates.push(gate);
+    if (gate) lastZ = gate.z;
+  });
+
+  if (data.finishZ === undefined) {
+    if (gates.length > 0) {
+      problems.push('finishZ must be set to race the gates to');
+    }
+  } else if (!isNumber(data.finishZ) || data.finishZ >= lastZ) {
+    problems.push(`finishZ must be a number below ${gates.length > 0 ? 'the last gate' : 'the start line'}`);
+  }
+
+  if (problems.length > 0) {
+    throw new CourseFileError(problems);
+  }
+  return {
+    format: COURSE_FORMAT,
+    version: COURSE_VERSION,
+    name: typeof data.name === 'string' && data.name ? data.name.slice(0, 40) : 'Custom course',
+    segments: segments as CourseSegment[],
+    yetis: (yetis as YetiTrigger[]).sort((a, b) => b.z - a.z),
+    gates: gates as SlalomGate[],
+    ...(data.finishZ === undefined ? {} : { finishZ: data.finishZ as number }),
+  };
+}
+
+export function downloadCourse(course: CourseFile) {
+  const blob = new Blob([JSON.stringify(course, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${course.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'course'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readCourseFile(file: File): Promise<CourseFile> {
+  const text = await file.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CourseFileError(['Course file is not valid JSON']);
+  }
+  return parseCourseFile(data);
+}
+// --- End Course Files ---
+
+// --- Course Layout ---
+
+export interface PlacedObstacle {
+  type: ObstacleKind;
+  x: number;
+  z: number; // Slope z
+  id: string;
+}
+
+// Slope z at the top of each segment
+export function segmentStarts(course: { segments: Pick<CourseSegment, 'length'>[] }): number[] {
+  const starts: number[] = [];
+  let z = 0;
+  for (const segment of course.segments) {
+    starts.push(z);
+    z -= segment.length;
+  }
+  return starts;
+}
+
+// Index of the segment holding slope z, or -1 outside them all
+export function segmentIndexAt(course: { segments: Pick<CourseSegment, 'length'>[] }, z: number): number {
+  if (z > 0) return -1;
+  let bottom = 0;
+  return course.segments.findIndex(segment => {
+    bottom -= segment.length;
+    return z > bottom;
+  });
+}
+
+// Whether the generator fills the slope at z. Nothing is generated behind the
+// start line, and everything past the last segment is.
+export function isProceduralAt(course: CourseFile, z: number): boolean {
+  if (z > 0) return false;
+  const index = segmentIndexAt(course, z);
+  return index === -1 || course.segments[index].procedural;
+}
+
+// The listed obstacles with slope z in [startZ, endZ)
+export function placedObstacles(course: CourseFile, startZ: number, endZ: number): PlacedObstacle[] {
+  const starts = segmentStarts(course);
+  return course.segments.flatMap((segment, i) => segment.obstacles
+    .map((obstacle, j) => ({ type: obstacle.type, x: obstacle.x, z: starts[i] + obstacle.z, id: `course:${i}:${j}` }))
+    .filter(obstacle => obstacle.z >= startZ && obstacle.z < endZ));
+}
+// --- End Course Layout ---
+
+// A course played from the editor, starting partway down the slope
+export interface CourseTest {
+  file: CourseFile;
+  startZ: number;
+}
+
+// --- Saved Courses ---
+// Courses saved from the editor, kept on this device by name
+
+const SAVED_COURSES_KEY = 'vibeskiing:courses';
+
+export function loadSavedCourses(): CourseFile[] {
+  try {
+    const stored = localStorage.getItem(SAVED_COURSES_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap(course => {
+      try {
+        return [parseCourseFile(course)];
+      } catch (err) {
+        console.error('Discarding unreadable saved course:', err);
+        return [];
+      }
+    });
+  } catch (err) {
+    console.error('Discarding unreadable saved courses:', err);
+    return [];
+  }
+}
+
+function storeCourses(courses: CourseFile[]) {
+  try {
+    localStorage.setItem(SAVED_COURSES_KEY, JSON.stringify(courses));
+  } catch (err) {
+    console.error('Error saving courses:', err);
+  }
+}
+
+// Replaces any saved course with the same name. Returns the saved list.
+export function saveCourse(course: CourseFile): CourseFile[] {
+  const courses = [course, ...loadSavedCourses().filter(c => c.name !== course.name)];
+  storeCourses(courses);
+  return courses;
+}
+
+export function deleteSavedCourse(name: string): CourseFile[] {
+  const courses = loadSavedCourses().filter(c => c.name !== name);
+  storeCourses(courses);
+  return courses;
+}
+// --- End Saved Courses ---
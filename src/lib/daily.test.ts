@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { getDailySeed } from './daily';
+
+describe('getDailySeed', () => {
+  it('matches the seed the server checks daily scores against', () => {
+    // daily_seed() in supabase/migrations/20250810120000_same_slope.sql
+    expect(getDailySeed('2025-08-03')).toBe(1786172376);
+  });
+});
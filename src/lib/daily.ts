@@ -0,0 +1,35 @@
+import { deriveSeed, hashString } from './random';
+
+export type GameMode = 'endless' | 'daily' | 'slalom';
+
+export const MODE_LABELS: Record<GameMode, string> = {
+  endless: 'Endless',
+  daily: 'Daily Challenge',
+  slalom: 'Slalom',
+};
+
+// Days roll over at midnight UTC so every player worldwide shares the same slope.
+export function getDailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailySeed(dayKey: string): number {
+  return deriveSeed(hashString(`vibeskiing-daily:${dayKey}`));
+}
+
+export function formatDailyKey(dayKey: string): string {
+  const date = new Date(`${dayKey}T00:00:00Z`);
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Reads ?mode=daily or ?mode=slalom from the URL; anything else is a normal endless run.
+export function getModeFromUrl(): GameMode {
+  const mode = new URLSearchParams(window.location.search).get('mode');
+  return mode === 'daily' || mode === 'slalom' ? mode : 'endless';
+}
+
+export function getModeUrl(mode: GameMode): string {
+  const url = new URL(window.location.href);
+  url.search = mode === 'endless' ? '' : `?mode=${mode}`;
+  return url.toString();
+}
@@ -0,0 +1,121 @@
+import { MAX_SPEED, SPEED_RAMP, START_SPEED, type SpeedRamp } from './movement';
+import type { ObstacleKind } from './gameEvents';
+
+// --- Difficulty ---
+// Everything that makes a slope harder as it goes on, as data. Each preset
+// describes how busy the slope gets and how quickly it speeds the skier (and
+// the yeti) up; the generator and the simulation only ever read these curves.
+// Normal keeps the original obstacle and speed tuning.
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export const DIFFICULTIES: readonly Difficulty[] = ['easy', 'normal', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+};
+
+// [x, y] points in increasing x, joined by straight lines and held flat past either end
+export type Curve = readonly (readonly [number, number])[];
+
+export interface DifficultyProfile {
+  density: Curve; // Chance of an obstacle in each grid cell, by distance
+  rowSpacing: number; // Distance between rows of the obstacle grid
+  weights: Record<ObstacleKind, Curve>; // Relative odds of each obstacle, by distance
+  speed: SpeedRamp; // How fast the slope makes the skier go; the score and the yeti follow it
+  yetiChance: Curve; // Random yeti appearances per second at 1x speed, by distance
+  yetiCount: Curve; // Most yetis out at once, by distance (rounded down)
+  hazardRate: number; // Scales how often moving hazards turn up (see hazards.ts)
+}
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  easy: {
+    density: [[0, 0.08], [3000, 0.12]],
+    rowSpacing: 15,
+    weights: {
+      tree: [[0, 0.45]],
+      rock: [[0, 0.25]],
+      bump: [[0, 0.2]],
+      pole: [[0, 0.04]],
+      ramp: [[0, 0.06]],
+    },
+    speed: { start: 0.8, perSecond: 0.006, max: 2.5 },
+    yetiChance: [[0, 0.05], [2000, 0.08]],
+    yetiCount: [[0, 1], [4000, 2]],
+    hazardRate: 0.5,
+  },
+  normal: {
+    density: [[0, 0.15]],
+    rowSpacing: 15,
+    weights: {
+      tree: [[0, 0.4]],
+      rock: [[0, 0.3]],
+      bump: [[0, 0.17]],
+      pole: [[0, 0.08]],
+      ramp: [[0, 0.05]],
+    },
+    speed: { start: START_SPEED, perSecond: SPEED_RAMP, max: MAX_SPEED },
+    yetiChance: [[0, 0.1]],
+    yetiCount: [[0, 1], [2000, 2]],
+    hazardRate: 1,
+  },
+  hard: {
+    // Rocks and poles take over from trees as the slope goes on
+    density: [[0, 0.15], [2000, 0.22], [6000, 0.28]],
+    rowSpacing: 15,
+    weights: {
+      tree: [[0, 0.4], [5000, 0.3]],
+      rock: [[0, 0.3], [5000, 0.38]],
+      bump: [[0, 0.15]],
+      pole: [[0, 0.1], [5000, 0.14]],
+      ramp: [[0, 0.05], [5000, 0.03]],
+    },
+    speed: { start: 1.2, perSecond: 0.015, max: 3.5 },
+    yetiChance: [[0, 0.12], [3000, 0.2]],
+    yetiCount: [[0, 1], [1000, 2], [3000, 3]],
+    hazardRate: 1.5,
+  },
+};
+
+export function sampleCurve(curve: Curve, x: number): number {
+  if (x <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (x < x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTIES.includes(value as Difficulty);
+}
+
+// --- Chosen Difficulty ---
+// Kept per device, like the settings
+
+const DIFFICULTY_KEY = 'vibeskiing:difficulty';
+
+export function loadDifficulty(): Difficulty {
+  try {
+    const stored = localStorage.getItem(DIFFICULTY_KEY);
+    return isDifficulty(stored) ? stored : 'normal';
+  } catch (err) {
+    console.error('Discarding unreadable difficulty:', err);
+    return 'normal';
+  }
+}
+
+export function saveDifficulty(difficulty: Difficulty) {
+  try {
+    localStorage.setItem(DIFFICULTY_KEY, difficulty);
+  } catch (err) {
+    console.error('Error saving difficulty:', err);
+  }
+}
+// --- End Chosen Difficulty ---
+// --- End Difficulty ---
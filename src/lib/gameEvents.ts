@@ -0,0 +1,28 @@
+import type { HazardKind } from './hazards';
+import type { YetiBehavior } from './yeti';
+
+// --- Gameplay Events ---
+// Emitted by GameScene as the simulation runs, for anything that reacts to
+// what happens on the slope (achievements) without reaching into the sim.
+
+export type ObstacleKind = 'tree' | 'rock' | 'bump' | 'pole' | 'ramp';
+
+export type GameEvent =
+  // Once per rendered frame while the run is going
+  | { type: 'progress'; time: number; speed: number; distance: number }
+  // The skier went past an obstacle within NEAR_MISS_DISTANCE (see scoring.ts)
+  // without hitting it. `multiplier` is the combo multiplier it brought.
+  | { type: 'near-pass'; obstacle: ObstacleKind; clearance: number; multiplier: number }
+  // Near misses on both sides in quick succession
+  | { type: 'thread'; multiplier: number }
+  // A trick landed cleanly, with the points it scored
+  | { type: 'trick'; name: string; spins: number; points: number }
+  // A yeti gave up without catching the skier
+  | { type: 'yeti-dodged'; behavior: YetiBehavior }
+  // The skier reached a slalom gate, and whether they went through it
+  | { type: 'gate'; passed: boolean }
+  // A slalom course finished, with `time` including missed-gate penalties
+  | { type: 'finish'; time: number; missedGates: number }
+  // Ends the run, unless the skier had a life to spare
+  | { type: 'crash'; cause: ObstacleKind | HazardKind | 'yeti' | 'landing' | null }; // Null when a replay ran out
+// --- End Gameplay Events ---
@@ -0,0 +1,29 @@
+// --- Game Phase State Machine ---
+// title → playing ⇄ paused, playing → crashed → results, and a restart from
+// the pause menu or the results screen goes straight back to playing. Crossing
+// a slalom finish line skips the crash and goes straight to the results.
+// Anything not listed in TRANSITIONS is ignored, so e.g. a late blur event
+// can't pause a run that has already crashed.
+
+export type GamePhase = 'title' | 'playing' | 'paused' | 'crashed' | 'results';
+
+export type GamePhaseEvent = 'start' | 'pause' | 'resume' | 'crash' | 'crashComplete' | 'finish' | 'restart';
+
+const TRANSITIONS: Record<GamePhase, Partial<Record<GamePhaseEvent, GamePhase>>> = {
+  title: { start: 'playing' },
+  playing: { pause: 'paused', crash: 'crashed', finish: 'results' },
+  paused: { resume: 'playing', restart: 'playing' },
+  crashed: { crashComplete: 'results' },
+  results: { restart: 'playing' },
+};
+
+// Reducer for useReducer: returns the next phase, or the same one if the event doesn't apply
+export function nextGamePhase(phase: GamePhase, event: GamePhaseEvent): GamePhase {
+  return TRANSITIONS[phase][event] ?? phase;
+}
+
+// Whether the simulation should advance in this phase
+export function isSimulating(phase: GamePhase): boolean {
+  return phase === 'playing';
+}
+// --- End Game Phase State Machine ---
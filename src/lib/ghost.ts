@@ -0,0 +1,68 @@
+import { createSkierState, moveSkier, updateSpeed } from './movement';
+import { DIFFICULTY_PROFILES } from './difficulty';
+import { createReplayCursor, parseReplay, SIM_STEP, type Replay } from './replay';
+
+// The position of a recorded run at every tick, re-traced from its inputs.
+// Collisions don't need re-checking: the run simply stops at its end tick.
+// Jumps aren't re-traced either, so the ghost stays on the snow.
+export interface GhostPath {
+  x: Float32Array;
+  z: Float32Array;
+  heading: Float32Array; // Which way the skis point (see SkierState)
+  endTick: number;
+}
+
+export function computeGhostPath(replay: Replay): GhostPath {
+  const length = replay.endTick + 1;
+  const path: GhostPath = {
+    x: new Float32Array(length),
+    z: new Float32Array(length),
+    heading: new Float32Array(length),
+    endTick: replay.endTick,
+  };
+  const { speed } = DIFFICULTY_PROFILES[replay.difficulty];
+  const skier = createSkierState(0, speed);
+  const cursor = createReplayCursor(replay);
+
+  for (let tick = 0; tick < length; tick++) {
+    // Same order as a simulation step: sample input, move, then update speed
+    const input = cursor(tick);
+    moveSkier(skier, input, SIM_STEP);
+    path.x[tick] = skier.x;
+    path.z[tick] = skier.z;
+    path.heading[tick] = skier.heading;
+    updateSpeed(skier, input, SIM_STEP, speed);
+  }
+
+  return path;
+}
+
+// --- Personal Best ---
+
+const PERSONAL_BEST_KEY = 'vibeskiing:personal-best';
+
+export function getPersonalBest(): Replay | null {
+  try {
+    const stored = localStorage.getItem(PERSONAL_BEST_KEY);
+    return stored ? parseReplay(JSON.parse(stored)) : null;
+  } catch (err) {
+    console.error('Discarding unreadable personal best:', err);
+    return null;
+  }
+}
+
+// Stores the replay if it beats the current personal best. Returns true if it did.
+export function savePersonalBest(replay: Replay): boolean {
+  const current = getPersonalBest();
+  if (current && current.score >= replay.score) {
+    return false;
+  }
+  try {
+    localStorage.setItem(PERSONAL_BEST_KEY, JSON.stringify(replay));
+    return true;
+  } catch (err) {
+    console.error('Error saving personal best:', err);
+    return false;
+  }
+}
+// --- End Personal Best ---
@@ -0,0 +1,232 @@
+import { BOUNDARY_X, FORWARD_SPEED, SKIER_HITBOX } from './movement';
+import { GROUND_Y } from './tricks';
+import type { Rng } from './random';
+
+// --- Moving Hazards ---
+// Anything on the slope that moves. Each kind of hazard is a definition: when
+// it turns up, how it moves, the boxes it collides with and when it's gone.
+// The simulation steps every hazard the same way and checks their boxes in
+// the same pass as the obstacles, so a new hazard is a new definition rather
+// than more code in the game loop.
+
+export type HazardKind = 'skier' | 'snowmobile' | 'debris' | 'chairlift';
+
+export const HAZARD_KINDS: readonly HazardKind[] = ['skier', 'snowmobile', 'debris', 'chairlift'];
+
+export interface Hazard {
+  id: number;
+  kind: HazardKind;
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  age: number; // Seconds since it turned up
+  size: number; // Debris radius, or the length of a chairlift's line
+  sway: number; // How far a skier weaves or a chair swings, across the slope
+  phase: number; // Where in its weave or swing it started, in radians
+}
+
+export interface HazardState {
+  hazards: Hazard[];
+  nextId: number;
+}
+
+// Where the skier is, and their speed multiplier
+export interface HazardTarget {
+  x: number;
+  z: number;
+  speed: number;
+}
+
+// A collision box in the same space as the obstacles', y being its bottom.
+// Yetis use them too (see yeti.ts).
+export interface HazardBox {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface HazardDefinition {
+  // Spawn rules
+  from: number; // Distance down the slope before it can turn up
+  chance: number; // Appearances per second at 1x speed
+  max: number; // Most of this kind out at once
+  // Where it starts; some hazards turn up several at a time
+  spawn(rng: Rng, skier: HazardTarget): Omit<Hazard, 'id' | 'kind' | 'age'>[];
+  // Sets its velocity for this step
+  steer(hazard: Hazard, deltaTime: number): void;
+  boxes(hazard: Hazard): HazardBox[];
+  isGone(hazard: Hazard, skier: HazardTarget): boolean;
+}
+
+// The bottom of the skier's collision box while they're on the snow
+export const SNOW_Y = GROUND_Y - 3;
+
+const SIGHT_DISTANCE = 150; // How far ahead of the skier hazards turn up
+const OFF_SLOPE_X = BOUNDARY_X + 10;
+
+function fromSide(rng: Rng): number {
+  return rng() < 0.5 ? -1 : 1;
+}
+
+// Gone once it's off the slope or well behind the skier
+function leftBehind(hazard: Hazard, skier: HazardTarget): boolean {
+  return Math.abs(hazard.x) > OFF_SLOPE_X || hazard.z > skier.z + 30;
+}
+
+// --- Chairlift ---
+// A line of chairs running up the slope from hazard.z - size to hazard.z, on
+// towers. The chairs swing across the slope as they go.
+export const CHAIR_HEIGHT = 3; // From the snow to the seat
+const CHAIR_SPACING = 15;
+const CHAIR_SPEED = 4; // Uphill
+const TOWER_SPACING = 100;
+
+export function chairliftChairs(hazard: Hazard): { x: number; z: number }[] {
+  const bottom = hazard.z - hazard.size;
+  const offset = (hazard.age * CHAIR_SPEED) % CHAIR_SPACING;
+  const chairs: { x: number; z: number }[] = [];
+  for (let z = bottom + offset; z <= hazard.z; z += CHAIR_SPACING) {
+    chairs.push({ x: hazard.x + Math.sin(hazard.age * 2 + hazard.phase + z / CHAIR_SPACING) * hazard.sway, z });
+  }
+  return chairs;
+}
+
+export function chairliftTowers(hazard: Hazard): number[] {
+  const towers: number[] = [];
+  for (let z = hazard.z; z >= hazard.z - hazard.size; z -= TOWER_SPACING) {
+    towers.push(z);
+  }
+  return towers;
+}
+// --- End Chairlift ---
+
+export const HAZARDS: Record<HazardKind, HazardDefinition> = {
+  // Another skier, either traversing the slope or heading down it slower than
+  // the player and weaving as they go
+  skier: {
+    from: 300,
+    chance: 0.08,
+    max: 2,
+    spawn(rng, skier) {
+      const side = fromSide(rng);
+      const z = skier.z - SIGHT_DISTANCE;
+      if (rng() < 0.5) {
+        return [{ x: side * OFF_SLOPE_X, z, vx: -side * (8 + rng() * 6), vz: -8, size: 1, sway: 0, phase: 0 }];
+      }
+      const x = (rng() * 2 - 1) * (BOUNDARY_X - 10);
+      return [{ x, z, vx: 0, vz: -(15 + rng() * 10), size: 1, sway: 6, phase: rng() * Math.PI * 2 }];
+    },
+    steer(hazard) {
+      if (hazard.sway > 0) {
+        hazard.vx = Math.cos(hazard.age * 1.5 + hazard.phase) * hazard.sway;
+      }
+    },
+    boxes: hazard => [{ x: hazard.x, y: SNOW_Y, z: hazard.z, ...SKIER_HITBOX }],
+    isGone: leftBehind,
+  },
+  // Fast, straight across the slope and climbing as it goes
+  snowmobile: {
+    from: 1000,
+    chance: 0.03,
+    max: 1,
+    spawn(rng, skier) {
+      const side = fromSide(rng);
+      const ahead = 60 + FORWARD_SPEED * skier.speed; // About a second's warning once it's on the slope
+      return [{ x: side * OFF_SLOPE_X, z: skier.z - ahead, vx: -side * 30, vz: 6, size: 1, sway: 0, phase: 0 }];
+    },
+    steer() {},
+    boxes: hazard => [{ x: hazard.x, y: SNOW_Y, z: hazard.z, width: 3.5, height: 3, depth: 1.6 }],
+    isGone: leftBehind,
+  },
+  // A handful of chunks from a small slide, rolling downhill. The smaller ones
+  // can be hopped over.
+  debris: {
+    from: 1500,
+    chance: 0.04,
+    max: 8,
+    spawn(rng, skier) {
+      const centre = (rng() * 2 - 1) * (BOUNDARY_X - 15);
+      const count = 4 + Math.floor(rng() * 4);
+      return Array.from({ length: count }, () => ({
+        x: centre + (rng() * 2 - 1) * 15,
+        z: skier.z - SIGHT_DISTANCE - rng() * 20,
+        vx: (rng() * 2 - 1) * 3,
+        vz: -(12 + rng() * 8),
+        size: 0.4 + rng() * 0.4,
+        sway: 0,
+        phase: 0,
+      }));
+    },
+    steer() {},
+    boxes: hazard => [
+      { x: hazard.x, y: SNOW_Y, z: hazard.z, width: hazard.size * 2, height: hazard.size * 2, depth: hazard.size * 2 },
+    ],
+    isGone: leftBehind,
+  },
+  // Stays put while its chairs go by; gone once the skier is past the bottom
+  chairlift: {
+    from: 600,
+    chance: 0.02,
+    max: 1,
+    spawn(rng, skier) {
+      return [{
+        x: (rng() * 2 - 1) * (BOUNDARY_X - 15),
+        z: skier.z - SIGHT_DISTANCE,
+        vx: 0,
+        vz: 0,
+        size: 300,
+        sway: 1.5,
+        phase: rng() * Math.PI * 2,
+      }];
+    },
+    steer() {},
+    boxes: hazard => [
+      ...chairliftTowers(hazard).map(z => ({ x: hazard.x, y: SNOW_Y, z, width: 1, height: 14, depth: 1 })),
+      ...chairliftChairs(hazard).map(chair => ({
+        x: chair.x,
+        y: SNOW_Y + CHAIR_HEIGHT,
+        z: chair.z,
+        width: 2.5,
+        height: 1.5,
+        depth: 1,
+      })),
+    ],
+    isGone: (hazard, skier) => hazard.z - hazard.size > skier.z + 30,
+  },
+};
+
+export function createHazardState(): HazardState {
+  return { hazards: [], nextId: 0 };
+}
+
+// Rolls for new hazards, then moves every hazard one step. `rate` scales
+// every kind's chance of turning up. Hazards that are gone are removed.
+export function updateHazards(state: HazardState, rng: Rng, skier: HazardTarget, rate: number, deltaTime: number) {
+  for (const kind of HAZARD_KINDS) {
+    const definition = HAZARDS[kind];
+    if (-skier.z < definition.from) continue;
+    if (rng() >= definition.chance * rate * skier.speed * deltaTime) continue;
+    const starts = definition.spawn(rng, skier);
+    if (state.hazards.filter(h => h.kind === kind).length + starts.length > definition.max) continue;
+    for (const start of starts) {
+      state.hazards.push({ ...start, id: state.nextId++, kind, age: 0 });
+    }
+  }
+
+  for (const hazard of state.hazards) {
+    hazard.age += deltaTime;
+    HAZARDS[hazard.kind].steer(hazard, deltaTime);
+    hazard.x += hazard.vx * deltaTime;
+    hazard.z += hazard.vz * deltaTime;
+  }
+  state.hazards = state.hazards.filter(hazard => !HAZARDS[hazard.kind].isGone(hazard, skier));
+}
+
+export function hazardBoxes(hazard: Hazard): HazardBox[] {
+  return HAZARDS[hazard.kind].boxes(hazard);
+}
+// --- End Moving Hazards ---
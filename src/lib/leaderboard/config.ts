@@ -0,0 +1,33 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from '../supabase';
+import { createLocalBackend, createMemoryBackend } from './localBackend';
+import { createLeaderboardService } from './service';
+import { createSupabaseBackend } from './supabaseBackend';
+import type { LeaderboardService } from './types';
+
+// The Supabase client when the game is configured to talk to a server, or null
+// when VITE_LEADERBOARD_BACKEND keeps everything on this device. Other
+// server-side data (run logs) follows the same choice as the leaderboard.
+export function getConfiguredSupabaseClient(): SupabaseClient | null {
+  const requested = import.meta.env.VITE_LEADERBOARD_BACKEND;
+  return requested === 'local' || requested === 'memory' ? null : getSupabaseClient();
+}
+
+// Picks the backend from VITE_LEADERBOARD_BACKEND (supabase | local | memory).
+// Left unset, it's Supabase when a project is configured and local storage otherwise.
+export function createConfiguredLeaderboardService(): LeaderboardService {
+  const requested = import.meta.env.VITE_LEADERBOARD_BACKEND;
+  const supabase = getConfiguredSupabaseClient();
+
+  if (requested === 'supabase' && !supabase) {
+    console.warn('VITE_LEADERBOARD_BACKEND is "supabase" but VITE_SUPABASE_* is not set; using local storage');
+  }
+
+  if (supabase) {
+    return createLeaderboardService(createSupabaseBackend(supabase), { storage: localStorage, autoSync: true });
+  }
+  if (requested === 'memory') {
+    return createLeaderboardService(createMemoryBackend(), { storage: null, autoSync: false });
+  }
+  return createLeaderboardService(createLocalBackend(), { storage: localStorage, autoSync: false });
+}
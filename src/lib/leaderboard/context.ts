@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { createConfiguredLeaderboardService } from './config';
+import type { LeaderboardService } from './types';
+
+let defaultService: LeaderboardService | null = null;
+
+// Created on first use rather than at import, so nothing touches the network
+// or storage until a leaderboard is actually shown
+function getDefaultService(): LeaderboardService {
+  defaultService ??= createConfiguredLeaderboardService();
+  return defaultService;
+}
+
+// Provide a different service (e.g. createMemoryBackend-backed) to develop or
+// test the leaderboard UI without a live project
+export const LeaderboardServiceContext = createContext<LeaderboardService | null>(null);
+
+export function useLeaderboardService(): LeaderboardService {
+  return useContext(LeaderboardServiceContext) ?? getDefaultService();
+}
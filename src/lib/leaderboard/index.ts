@@ -0,0 +1,19 @@
+export type {
+  BoardScope,
+  DailyLeaderboardEntry,
+  KeyValueStore,
+  LeaderboardBackend,
+  LeaderboardBackendKind,
+  LeaderboardBoard,
+  LeaderboardEntry,
+  LeaderboardService,
+  PlayerStanding,
+  ScoreSubmission,
+  SubmitResult,
+} from './types';
+export { LeaderboardError } from './types';
+export { createLeaderboardService } from './service';
+export { createLocalBackend, createMemoryBackend } from './localBackend';
+export { createSupabaseBackend } from './supabaseBackend';
+export { createConfiguredLeaderboardService, getConfiguredSupabaseClient } from './config';
+export { LeaderboardServiceContext, useLeaderboardService } from './context';
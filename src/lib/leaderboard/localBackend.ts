@@ -0,0 +1,141 @@
+import { parseReplay } from '../replay';
+import {
+  compareScores,
+  LeaderboardError,
+  submissionScope,
+  TOP_N,
+  type BoardScope,
+  type DailyLeaderboardEntry,
+  type KeyValueStore,
+  type LeaderboardBackend,
+  type LeaderboardBackendKind,
+  type LeaderboardBoard,
+  type ScoreSubmission,
+} from './types';
+
+// Scores kept on this device only: in localStorage when no Supabase project is
+// configured, so the game is fully playable without a backend, or purely in
+// memory for development and tests.
+
+const STORAGE_KEY = 'vibeskiing:local-scores';
+const MAX_STORED_SCORES = 200; // Each board's worst scores are dropped beyond this
+
+interface ScoreStore {
+  read(): ScoreSubmission[];
+  write(scores: ScoreSubmission[]): void;
+}
+
+// Sorted best-first, ties going to whoever got there first
+function rankScores(board: LeaderboardBoard, scores: ScoreSubmission[]): ScoreSubmission[] {
+  return [...scores].sort((a, b) => compareScores(board, a.score, b.score) || a.created_at.localeCompare(b.created_at));
+}
+
+function boardScores(scores: ScoreSubmission[], board: LeaderboardBoard, scope: BoardScope): ScoreSubmission[] {
+  return rankScores(board, scores.filter(s => s.board === board && submissionScope(s) === scope));
+}
+
+// Trims to MAX_STORED_SCORES by dropping whatever ranks lowest on its own board,
+// since scores on different boards can't be compared directly
+function pruneScores(scores: ScoreSubmission[]): ScoreSubmission[] {
+  if (scores.length <= MAX_STORED_SCORES) return scores;
+  const groups = new Map<string, ScoreSubmission[]>();
+  for (const score of scores) {
+    const key = `${score.board}:${submissionScope(score)}`;
+    groups.set(key, [...(groups.get(key) ?? []), score]);
+  }
+  const places = new Map<ScoreSubmission, number>();
+  for (const group of groups.values()) {
+    rankScores(group[0].board, group).forEach((score, i) => places.set(score, i));
+  }
+  return [...scores].sort((a, b) => places.get(a)! - places.get(b)!).slice(0, MAX_STORED_SCORES);
+}
+
+function toEntry(score: ScoreSubmission, rank: number): DailyLeaderboardEntry {
+  return {
+    id: score.id,
+    name: score.name,
+    score: Math.floor(score.score),
+    time: Math.floor(score.time),
+    seed: score.seed,
+    has_replay: score.replay !== null,
+    created_at: score.created_at,
+    rank,
+    user_id: null,
+    difficulty: score.difficulty ?? 'normal',
+    day: score.day ?? '',
+  };
+}
+
+function createStoredBackend(kind: LeaderboardBackendKind, store: ScoreStore): LeaderboardBackend {
+  return {
+    kind,
+
+    async getTop(board, scope) {
+      return boardScores(store.read(), board, scope).slice(0, TOP_N).map((score, i) => toEntry(score, i + 1));
+    },
+
+    async qualifies(board, scope, score) {
+      const top = boardScores(store.read(), board, scope).slice(0, TOP_N);
+      return top.length < TOP_N || compareScores(board, Math.floor(score), top[top.length - 1].score) < 0;
+    },
+
+    async submit(submission) {
+      store.write(pruneScores([...store.read(), submission]));
+    },
+
+    async getDailyWinners(beforeDay, limit) {
+      const winners = new Map<string, ScoreSubmission>();
+      for (const score of rankScores('daily', store.read())) {
+        if (score.board === 'daily' && score.day && score.day < beforeDay && !winners.has(score.day)) {
+          winners.set(score.day, score);
+        }
+      }
+      return [...winners.values()]
+        .sort((a, b) => b.day!.localeCompare(a.day!))
+        .slice(0, limit)
+        .map(score => toEntry(score, 1));
+    },
+
+    async getReplay(_board, id) {
+      const score = store.read().find(s => s.id === id);
+      try {
+        return score?.replay ? parseReplay(score.replay) : null;
+      } catch (err) {
+        console.error('Stored replay is invalid:', err);
+        return null;
+      }
+    },
+  };
+}
+
+export function createLocalBackend(storage: KeyValueStore = localStorage): LeaderboardBackend {
+  return createStoredBackend('local', {
+    read() {
+      try {
+        const stored = storage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as ScoreSubmission[]) : [];
+      } catch (err) {
+        console.error('Discarding unreadable local scores:', err);
+        return [];
+      }
+    },
+    write(scores) {
+      try {
+        storage.setItem(STORAGE_KEY, JSON.stringify(scores));
+      } catch (err) {
+        throw new LeaderboardError(`Couldn't save score locally: ${String(err)}`, false);
+      }
+    },
+  });
+}
+
+// Starts from `initialScores` and forgets everything on reload
+export function createMemoryBackend(initialScores: ScoreSubmission[] = []): LeaderboardBackend {
+  let scores = [...initialScores];
+  return createStoredBackend('memory', {
+    read: () => scores,
+    write: next => {
+      scores = next;
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import type { KeyValueStore, ScoreSubmission } from './types';
+
+// Submissions that couldn't reach the backend, persisted so they survive a
+// reload and are uploaded once the connection returns.
+
+const STORAGE_KEY = 'vibeskiing:pending-scores';
+
+export interface ScoreQueue {
+  getPending(): ScoreSubmission[];
+  subscribe(listener: () => void): () => void;
+  enqueue(submission: ScoreSubmission): void;
+  remove(id: string): void;
+}
+
+export function createScoreQueue(storage: KeyValueStore | null): ScoreQueue {
+  const listeners = new Set<() => void>();
+  let pending: ScoreSubmission[] = read();
+
+  function read(): ScoreSubmission[] {
+    try {
+      const stored = storage?.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as ScoreSubmission[]) : [];
+    } catch (err) {
+      console.error('Discarding unreadable pending scores:', err);
+      return [];
+    }
+  }
+
+  function write(next: ScoreSubmission[]) {
+    pending = next;
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.error('Error saving pending scores:', err);
+    }
+    listeners.forEach(listener => listener());
+  }
+
+  return {
+    // Returns the same array until the queue changes, so it works as a
+    // useSyncExternalStore snapshot
+    getPending: () => pending,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    enqueue: submission => write([...pending, submission]),
+    remove: id => write(pending.filter(s => s.id !== id)),
+  };
+}
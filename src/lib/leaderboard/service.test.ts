@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './localBackend';
+import { createLeaderboardService } from './service';
+import { LeaderboardError, type LeaderboardBackend, type ScoreSubmission } from './types';
+
+const OFFLINE = new LeaderboardError('Failed to fetch', true);
+const RATE_LIMITED = new LeaderboardError('Too many score submissions, try again later', true);
+const REJECTED = new LeaderboardError('Score 99999 is not possible in 10 seconds', false);
+
+type Failure = (submission: ScoreSubmission) => void;
+
+// The in-memory backend, with each upload first going through `fail`, which
+// throws to turn it down. Records the names on the scores it takes, in order.
+function createFlakyBackend(fail: Failure) {
+  const memory = createMemoryBackend();
+  const accepted: string[] = [];
+  const backend: LeaderboardBackend = {
+    ...memory,
+    async submit(submission) {
+      flaky.fail(submission);
+      await memory.submit(submission);
+      accepted.push(submission.name);
+    },
+  };
+  const flaky = { backend, accepted, fail };
+  return flaky;
+}
+
+function createService(backend: LeaderboardBackend) {
+  return createLeaderboardService(backend, { storage: null, autoSync: false });
+}
+
+const offline: Failure = () => {
+  throw OFFLINE;
+};
+const online: Failure = () => {};
+
+// Three all-time scores set while offline, AAA first
+async function queueScores(service: ReturnType<typeof createService>) {
+  await service.addHighScore('AAA', 500, 60, 1, 'normal', null);
+  await service.addHighScore('BBB', 400, 50, 2, 'normal', null);
+  await service.addHighScore('CCC', 300, 40, 3, 'normal', null);
+}
+
+describe('leaderboard service', () => {
+  it('submits straight to the backend when it can be reached', async () => {
+    const flaky = createFlakyBackend(online);
+    const service = createService(flaky.backend);
+    expect(await service.addHighScore('AAA', 500, 60, 1, 'normal', null)).toEqual({ status: 'submitted' });
+    expect(flaky.accepted).toEqual(['AAA']);
+    expect(service.getPendingScores()).toEqual([]);
+  });
+
+  it('queues scores while offline and shows them on the board as pending', async () => {
+    const service = createService(createFlakyBackend(offline).backend);
+    expect(await service.addHighScore('AAA', 500, 60, 1, 'normal', null)).toEqual({ status: 'pending' });
+    expect(service.getPendingScores().map(s => s.name)).toEqual(['AAA']);
+    const board = await service.getLeaderboard();
+    expect(board.map(entry => [entry.name, entry.pending])).toEqual([['AAA', true]]);
+  });
+
+  it('turns a rejected score away without queueing it', async () => {
+    const service = createService(createFlakyBackend(() => { throw REJECTED; }).backend);
+    expect(await service.addHighScore('AAA', 99999, 10, 1, 'normal', null)).toEqual({
+      status: 'rejected',
+      message: REJECTED.message,
+    });
+    expect(service.getPendingScores()).toEqual([]);
+  });
+
+  it('uploads queued scores in the order they were set once back online', async () => {
+    const flaky = createFlakyBackend(offline);
+    const service = createService(flaky.backend);
+    await service.addHighScore('AAA', 500, 60, 1, 'normal', null);
+    await service.addDailyScore('BBB', 400, 50, 2, '2025-08-03', 'normal', null);
+    await service.addSlalomTime('CCC', 42.5, 3, 'seed:00000003', 'normal', null);
+
+    flaky.fail = online;
+    await service.syncPendingScores();
+    expect(flaky.accepted).toEqual(['AAA', 'BBB', 'CCC']);
+    expect(service.getPendingScores()).toEqual([]);
+  });
+
+  it('stops at the first retryable failure, keeping that score and the rest queued', async () => {
+    const flaky = createFlakyBackend(offline);
+    const service = createService(flaky.backend);
+    await queueScores(service);
+
+    // The server takes one score, then the rate limit kicks in
+    let uploads = 0;
+    flaky.fail = () => {
+      if (uploads++ > 0) throw RATE_LIMITED;
+    };
+    await service.syncPendingScores();
+    expect(flaky.accepted).toEqual(['AAA']);
+    expect(service.getPendingScores().map(s => s.name)).toEqual(['BBB', 'CCC']);
+
+    flaky.fail = online;
+    await service.syncPendingScores();
+    expect(flaky.accepted).toEqual(['AAA', 'BBB', 'CCC']);
+  });
+
+  it('drops only the queued scores the backend rejects outright', async () => {
+    const flaky = createFlakyBackend(offline);
+    const service = createService(flaky.backend);
+    await queueScores(service);
+
+    flaky.fail = submission => {
+      if (submission.name === 'BBB') throw REJECTED;
+    };
+    await service.syncPendingScores();
+    expect(flaky.accepted).toEqual(['AAA', 'CCC']);
+    expect(service.getPendingScores()).toEqual([]);
+  });
+});
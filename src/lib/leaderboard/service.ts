@@ -0,0 +1,250 @@
+import type { Difficulty } from '../difficulty';
+import type { Replay } from '../replay';
+import { createScoreQueue } from './queue';
+import {
+  compareScores,
+  LeaderboardError,
+  submissionScope,
+  TOP_N,
+  type BoardScope,
+  type DailyLeaderboardEntry,
+  type KeyValueStore,
+  type LeaderboardBackend,
+  type LeaderboardBoard,
+  type LeaderboardEntry,
+  type LeaderboardService,
+  type ScoreSubmission,
+  type SubmitResult,
+} from './types';
+
+const CACHE_KEY = 'vibeskiing:leaderboard-cache';
+
+function cacheKey(board: LeaderboardBoard, scope: BoardScope) {
+  return scope === null ? board : `${board}:${scope}`;
+}
+
+function createSubmission(
+  board: LeaderboardBoard,
+  scope: BoardScope,
+  name: string,
+  score: number,
+  time: number,
+  seed: number,
+  difficulty: Difficulty,
+  replay: Replay | null
+): ScoreSubmission {
+  return {
+    id: crypto.randomUUID(),
+    board,
+    day: board === 'daily' ? scope : null,
+    course: board === 'slalom' ? scope : null,
+    name,
+    score: Math.floor(score),
+    time: Math.floor(time),
+    seed,
+    difficulty,
+    replay,
+    created_at: new Date().toISOString(),
+  };
+}
+
+export interface LeaderboardServiceOptions {
+  // Where the offline queue and board cache persist. Null keeps them in memory.
+  storage: KeyValueStore | null;
+  // Upload queued scores now and whenever the browser comes back online
+  autoSync: boolean;
+}
+
+// Wraps a backend with the offline behaviour the game relies on: boards fall
+// back to the last cached copy, unreachable submissions are queued, and queued
+// scores show up in the boards as pending until they're uploaded.
+export function createLeaderboardService(
+  backend: LeaderboardBackend,
+  { storage, autoSync }: LeaderboardServiceOptions
+): LeaderboardService {
+  const queue = createScoreQueue(storage);
+
+  // --- Offline Cache ---
+  // The last board fetched from the backend, shown (with pending scores merged
+  // in) when the backend can't be reached.
+
+  function readCache(): Record<string, LeaderboardEntry[]> {
+    try {
+      return JSON.parse(storage?.getItem(CACHE_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  function writeCache(board: LeaderboardBoard, scope: BoardScope, entries: LeaderboardEntry[]) {
+    try {
+      // Only the latest daily or course board is worth keeping alongside the all-time one
+      const cache = readCache();
+      const next = { [cacheKey('all-time', null)]: cache[cacheKey('all-time', null)], [cacheKey(board, scope)]: entries };
+      storage?.setItem(CACHE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.error('Error caching leaderboard:', err);
+    }
+  }
+  // --- End Offline Cache ---
+
+  function mergePending(board: LeaderboardBoard, scope: BoardScope, entries: LeaderboardEntry[]): LeaderboardEntry[] {
+    const pending = queue.getPending()
+      .filter(s => s.board === board && submissionScope(s) === scope)
+      .map<LeaderboardEntry>(s => ({
+        id: s.id,
+        name: s.name,
+        score: Math.floor(s.score),
+        time: Math.floor(s.time),
+        seed: s.seed,
+        has_replay: false, // Not watchable until it has been uploaded
+        created_at: s.created_at,
+        rank: 0,
+        user_id: null, // Not known until the server links it to the session
+        difficulty: s.difficulty ?? 'normal',
+        pending: true,
+      }));
+    if (pending.length === 0) return entries;
+
+    return [...entries, ...pending]
+      .sort((a, b) => compareScores(board, a.score, b.score))
+      .slice(0, TOP_N)
+      .map((entry, i) => ({ ...entry, rank: i + 1 }));
+  }
+
+  async function getBoard(board: LeaderboardBoard, scope: BoardScope): Promise<LeaderboardEntry[]> {
+    try {
+      const entries = await backend.getTop(board, scope);
+      writeCache(board, scope, entries);
+      return mergePending(board, scope, entries);
+    } catch {
+      return mergePending(board, scope, readCache()[cacheKey(board, scope)] ?? []);
+    }
+  }
+
+  async function qualifies(board: LeaderboardBoard, scope: BoardScope, score: number): Promise<boolean> {
+    try {
+      return await backend.qualifies(board, scope, score);
+    } catch (err) {
+      // Offline we can't know, so let the player save the score and sort it out on upload
+      return err instanceof LeaderboardError && err.retryable;
+    }
+  }
+
+  async function submit(submission: ScoreSubmission): Promise<SubmitResult> {
+    try {
+      await backend.submit(submission);
+      return { status: 'submitted' };
+    } catch (err) {
+      if (err instanceof LeaderboardError && !err.retryable) {
+        return { status: 'rejected', message: err.message };
+      }
+      queue.enqueue(submission);
+      return { status: 'pending' };
+    }
+  }
+
+  // --- Sync ---
+  let syncing: Promise<void> | null = null;
+
+  // Uploads queued scores in order. Stops at the first retryable failure (still
+  // offline, the server failing or the rate limit), keeping that score and the
+  // rest queued; drops scores the backend rejects outright.
+  function syncPendingScores(): Promise<void> {
+    if (syncing) return syncing;
+
+    syncing = (async () => {
+      for (const submission of queue.getPending()) {
+        try {
+          await backend.submit(submission);
+          queue.remove(submission.id);
+        } catch (err) {
+          if (err instanceof LeaderboardError && !err.retryable) {
+            console.warn(`Dropping queued score ${submission.id}:`, err.message);
+            queue.remove(submission.id);
+          } else {
+            break;
+          }
+        }
+      }
+    })().finally(() => {
+      syncing = null;
+    });
+
+    return syncing;
+  }
+
+  if (autoSync) {
+    window.addEventListener('online', () => {
+      syncPendingScores();
+    });
+    syncPendingScores();
+  }
+  // --- End Sync ---
+
+  return {
+    kind: backend.kind,
+    isLocalOnly: backend.kind !== 'supabase',
+
+    getLeaderboard: () => getBoard('all-time', null),
+    checkHighScore: score => qualifies('all-time', null, score),
+    addHighScore: (name, score, time, seed, difficulty, replay) =>
+      submit(createSubmission('all-time', null, name, score, time, seed, difficulty, replay)),
+
+    async getDailyLeaderboard(day) {
+      const entries = await getBoard('daily', day);
+      return entries.map(entry => ({ ...entry, day }));
+    },
+    checkDailyHighScore: (score, day) => qualifies('daily', day, score),
+    addDailyScore: (name, score, time, seed, day, difficulty, replay) =>
+      submit(createSubmission('daily', day, name, score, time, seed, difficulty, replay)),
+
+    // Winner of each previous day, most recent first
+    async getDailyWinners(beforeDay, limit = 7): Promise<DailyLeaderboardEntry[]> {
+      try {
+        return await backend.getDailyWinners(beforeDay, limit);
+      } catch {
+        return [];
+      }
+    },
+
+    // Times are ranked in whole milliseconds
+    getSlalomLeaderboard: course => getBoard('slalom', course),
+    checkSlalomTime: (time, course) => qualifies('slalom', course, Math.round(time * 1000)),
+    addSlalomTime: (name, time, seed, course, difficulty, replay) =>
+      submit(createSubmission('slalom', course, name, Math.round(time * 1000), time, seed, difficulty, replay)),
+
+    async getReplay(board, id) {
+      try {
+        return await backend.getReplay(board, id);
+      } catch {
+        return null;
+      }
+    },
+
+    supportsAccounts: backend.getStanding !== undefined,
+
+    async getStanding(board, scope) {
+      try {
+        return (await backend.getStanding?.(board, scope)) ?? null;
+      } catch {
+        return null;
+      }
+    },
+
+    async claimGuestScores() {
+      if (!backend.claimGuestScores) {
+        return { error: 'Accounts need a leaderboard server' };
+      }
+      try {
+        return { claimed: await backend.claimGuestScores() };
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+
+    getPendingScores: queue.getPending,
+    subscribePendingScores: queue.subscribe,
+    syncPendingScores,
+  };
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseBackend } from './supabaseBackend';
+import { LeaderboardError, type ScoreSubmission } from './types';
+
+const SUBMISSION: ScoreSubmission = {
+  id: 'a5b1a1f0-0000-4000-8000-000000000000',
+  board: 'all-time',
+  day: null,
+  name: 'AAA',
+  score: 500,
+  time: 60,
+  seed: 1,
+  difficulty: 'normal',
+  replay: null,
+  created_at: '2025-08-03T12:00:00.000Z',
+};
+
+// Whether submitting fails with a retryable error when every call comes back
+// with this error and HTTP status
+async function retryable(code: string, status: number): Promise<boolean> {
+  const error: PostgrestError = { name: 'PostgrestError', message: 'Failed', details: '', hint: '', code };
+  const supabase = { rpc: async () => ({ data: null, error, status }) } as unknown as SupabaseClient;
+  const thrown = await createSupabaseBackend(supabase).submit(SUBMISSION).catch(err => err);
+  expect(thrown).toBeInstanceOf(LeaderboardError);
+  return (thrown as LeaderboardError).retryable;
+}
+
+describe('supabase backend errors', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', { getItem: () => 'client', setItem: () => {} }); // For the client id
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('are retried when the server could not be reached or failed', async () => {
+    expect(await retryable('', 0)).toBe(true);
+    expect(await retryable('PGRST000', 503)).toBe(true);
+    expect(await retryable('57014', 500)).toBe(true);
+  });
+
+  it('are retried when the rate limit turned the score away', async () => {
+    expect(await retryable('PT429', 429)).toBe(true);
+  });
+
+  it('reject a score the server judged impossible', async () => {
+    expect(await retryable('23514', 400)).toBe(false);
+    expect(await retryable('22023', 400)).toBe(false);
+  });
+});
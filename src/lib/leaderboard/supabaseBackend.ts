@@ -0,0 +1,145 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { getClientId } from '../supabase';
+import { parseReplay } from '../replay';
+import {
+  LeaderboardError,
+  type DailyLeaderboardEntry,
+  type LeaderboardBackend,
+  type LeaderboardBoard,
+  type LeaderboardEntry,
+  type PlayerStanding,
+} from './types';
+
+// Replays can be large, so list queries leave them out and getReplay fetches one on demand
+const ENTRY_COLUMNS = 'id, name, score, time, seed, has_replay, created_at, rank, user_id, difficulty';
+
+const BOARD_TABLES: Record<LeaderboardBoard, string> = {
+  'all-time': 'leaderboard',
+  daily: 'daily_leaderboard',
+  slalom: 'slalom_times',
+};
+
+// Raised by the score functions when a client submits too often; PostgREST
+// answers it with HTTP 429
+const RATE_LIMITED = 'PT429';
+
+// A fetch that never reached the server (status 0), a server or gateway
+// failure (5xx) and the rate limit are worth retrying later. Anything else is
+// the server turning the request itself down.
+function toLeaderboardError(action: string, error: PostgrestError, status: number): LeaderboardError {
+  console.error(`Error ${action}:`, error);
+  const retryable = status === 0 || status >= 500 || error.code === RATE_LIMITED;
+  return new LeaderboardError(error.message, retryable);
+}
+
+export function createSupabaseBackend(supabase: SupabaseClient): LeaderboardBackend {
+  return {
+    kind: 'supabase',
+
+    // Ranking and the top-10 cut happen in the *_top views; the tables keep every score
+    async getTop(board, scope) {
+      const query = {
+        'all-time': () => supabase.from('leaderboard_top').select(ENTRY_COLUMNS),
+        daily: () => supabase.from('daily_leaderboard_top').select(`${ENTRY_COLUMNS}, day`).eq('day', scope),
+        slalom: () => supabase.from('slalom_times_top').select(ENTRY_COLUMNS).eq('course', scope),
+      }[board]();
+      const { data, error, status } = await query.order('rank');
+
+      if (error) throw toLeaderboardError('fetching leaderboard', error, status);
+      return data as LeaderboardEntry[];
+    },
+
+    // Answered by the database in one statement, so it can't race a concurrent submission
+    async qualifies(board, scope, score) {
+      const { data, error, status } = await {
+        'all-time': () => supabase.rpc('leaderboard_qualifies', { p_score: Math.floor(score) }),
+        daily: () => supabase.rpc('daily_leaderboard_qualifies', { p_score: Math.floor(score), p_day: scope }),
+        slalom: () => supabase.rpc('slalom_times_qualifies', { p_time_ms: Math.floor(score), p_course: scope }),
+      }[board]();
+
+      if (error) throw toLeaderboardError('checking high score', error, status);
+      return data === true;
+    },
+
+    // Inserts go through submit_score / submit_daily_score, which reject
+    // scores that aren't possible for the run time on its difficulty, or
+    // submit_slalom_time, which rejects times faster than the finish line can
+    // be reached. A course file run's time is checked against the replay.
+    async submit(submission) {
+      const params = {
+        p_name: submission.name,
+        p_score: Math.floor(submission.score),
+        p_time: Math.floor(submission.time),
+        p_seed: submission.seed,
+        p_replay: submission.replay,
+        p_client_id: getClientId(),
+        p_difficulty: submission.difficulty ?? 'normal',
+      };
+      const { error, status } = await {
+        'all-time': () => supabase.rpc('submit_score', params),
+        daily: () => supabase.rpc('submit_daily_score', { ...params, p_day: submission.day }),
+        slalom: () => supabase.rpc('submit_slalom_time', {
+          p_name: params.p_name,
+          p_time_ms: params.p_score,
+          p_seed: params.p_seed,
+          p_course: submission.course,
+          p_replay: params.p_replay,
+          p_client_id: params.p_client_id,
+          p_difficulty: params.p_difficulty,
+        }),
+      }[submission.board]();
+
+      if (error) throw toLeaderboardError('adding high score', error, status);
+    },
+
+    // Winner of each previous day, most recent first
+    async getDailyWinners(beforeDay, limit) {
+      const { data, error, status } = await supabase
+        .from('daily_winners')
+        .select(`${ENTRY_COLUMNS}, day`)
+        .lt('day', beforeDay)
+        .order('day', { ascending: false })
+        .limit(limit);
+
+      if (error) throw toLeaderboardError('fetching daily winners', error, status);
+      return data as DailyLeaderboardEntry[];
+    },
+
+    async getReplay(board, id) {
+      const { data, error, status } = await supabase
+        .from(BOARD_TABLES[board])
+        .select('replay')
+        .eq('id', id)
+        .single();
+
+      if (error) throw toLeaderboardError('fetching replay', error, status);
+
+      try {
+        return data.replay ? parseReplay(data.replay) : null;
+      } catch (err) {
+        console.error('Stored replay is invalid:', err);
+        return null;
+      }
+    },
+
+    // Resolved from the session on the server, so there's nothing to pass for the player
+    async getStanding(board, scope) {
+      const { data, error, status } = await {
+        'all-time': () => supabase.rpc('leaderboard_standing').maybeSingle(),
+        daily: () => supabase.rpc('daily_leaderboard_standing', { p_day: scope }).maybeSingle(),
+        slalom: () => supabase.rpc('slalom_times_standing', { p_course: scope }).maybeSingle(),
+      }[board]();
+
+      if (error) throw toLeaderboardError('fetching standing', error, status);
+      return data as PlayerStanding | null;
+    },
+
+    // Guest scores are matched to this browser by its client id
+    async claimGuestScores() {
+      const { data, error, status } = await supabase.rpc('claim_guest_scores', { p_client_id: getClientId() });
+
+      if (error) throw toLeaderboardError('claiming guest scores', error, status);
+      return Number(data) || 0;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import type { Difficulty } from '../difficulty';
+import type { Replay } from '../replay';
+
+export type LeaderboardBoard = 'all-time' | 'daily' | 'slalom';
+
+// Which of a board's rankings: the day for the daily board, the course key for
+// slalom, null for all-time
+export type BoardScope = string | null;
+
+// On the slalom board `score` is the finish time in milliseconds, penalties
+// included, and the lowest ranks first
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  time: number;
+  seed: number | null;
+  has_replay: boolean;
+  created_at: string;
+  rank: number;
+  user_id: string | null; // The account that set the score; null for guests
+  difficulty: Difficulty;
+  pending?: boolean; // Saved locally, waiting to be uploaded
+}
+
+export interface DailyLeaderboardEntry extends LeaderboardEntry {
+  day: string;
+}
+
+// A score on its way to a backend. `id` is generated on the client so a queued
+// submission keeps its identity until it's uploaded.
+export interface ScoreSubmission {
+  id: string;
+  board: LeaderboardBoard;
+  day: string | null; // Set for the daily board
+  course?: string | null; // Set for the slalom board
+  name: string;
+  score: number;
+  time: number;
+  seed: number;
+  difficulty?: Difficulty; // Missing from scores queued before difficulty presets: normal
+  replay: Replay | null;
+  created_at: string;
+}
+
+// A signed-in player's best entry on a board and where it ranks among all scores
+export interface PlayerStanding {
+  id: string;
+  score: number;
+  time: number;
+  created_at: string;
+  rank: number;
+}
+
+export function submissionScope(submission: ScoreSubmission): BoardScope {
+  if (submission.board === 'daily') return submission.day;
+  if (submission.board === 'slalom') return submission.course ?? null;
+  return null;
+}
+
+// Sort order for a board's scores: fastest first on slalom, highest first elsewhere
+export function compareScores(board: LeaderboardBoard, a: number, b: number): number {
+  return board === 'slalom' ? a - b : b - a;
+}
+
+export type SubmitResult =
+  | { status: 'submitted' }
+  | { status: 'pending' } // Backend unreachable; queued for upload
+  | { status: 'rejected'; message: string };
+
+// Thrown by backends. Retryable failures (network down, backend unreachable)
+// queue the submission; anything else is a definitive rejection.
+export class LeaderboardError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LeaderboardError';
+  }
+}
+
+export type LeaderboardBackendKind = 'supabase' | 'local' | 'memory';
+
+// A place scores are stored. Methods throw LeaderboardError on failure;
+// the offline queue and caching live above this, in LeaderboardService.
+export interface LeaderboardBackend {
+  readonly kind: LeaderboardBackendKind;
+  getTop(board: LeaderboardBoard, scope: BoardScope): Promise<LeaderboardEntry[]>;
+  qualifies(board: LeaderboardBoard, scope: BoardScope, score: number): Promise<boolean>;
+  submit(submission: ScoreSubmission): Promise<void>;
+  getDailyWinners(beforeDay: string, limit: number): Promise<DailyLeaderboardEntry[]>;
+  getReplay(board: LeaderboardBoard, id: string): Promise<Replay | null>;
+  // Accounts only exist on a server; device-only backends leave these out
+  getStanding?(board: LeaderboardBoard, scope: BoardScope): Promise<PlayerStanding | null>;
+  claimGuestScores?(): Promise<number>;
+}
+
+export const TOP_N = 10;
+
+// What the game talks to. Never throws: failures degrade to cached boards,
+// queued submissions or a rejected SubmitResult.
+export interface LeaderboardService {
+  readonly kind: LeaderboardBackendKind;
+  readonly isLocalOnly: boolean; // Scores never leave this device
+  getLeaderboard(): Promise<LeaderboardEntry[]>;
+  checkHighScore(score: number): Promise<boolean>;
+  addHighScore(
+    name: string,
+    score: number,
+    time: number,
+    seed: number,
+    difficulty: Difficulty,
+    replay: Replay | null
+  ): Promise<SubmitResult>;
+  getDailyLeaderboard(day: string): Promise<DailyLeaderboardEntry[]>;
+  checkDailyHighScore(score: number, day: string): Promise<boolean>;
+  addDailyScore(
+    name: string,
+    score: number,
+    time: number,
+    seed: number,
+    day: string,
+    difficulty: Difficulty,
+    replay: Replay | null
+  ): Promise<SubmitResult>;
+  getDailyWinners(beforeDay: string, limit?: number): Promise<DailyLeaderboardEntry[]>;
+  // Slalom courses, ranked by finish time in seconds
+  getSlalomLeaderboard(course: string): Promise<LeaderboardEntry[]>;
+  checkSlalomTime(time: number, course: string): Promise<boolean>;
+  addSlalomTime(
+    name: string,
+    time: number,
+    seed: number,
+    course: string,
+    difficulty: Difficulty,
+    replay: Replay | null
+  ): Promise<SubmitResult>;
+  getReplay(board: LeaderboardBoard, id: string): Promise<Replay | null>;
+  // Accounts
+  readonly supportsAccounts: boolean;
+  getStanding(board: LeaderboardBoard, scope: BoardScope): Promise<PlayerStanding | null>;
+  claimGuestScores(): Promise<{ claimed: number } | { error: string }>;
+  // Offline queue
+  getPendingScores(): ScoreSubmission[];
+  subscribePendingScores(listener: () => void): () => void;
+  syncPendingScores(): Promise<void>;
+}
+
+// The subset of Storage the leaderboard persists to; null keeps everything in memory
+export type KeyValueStore = Pick<Storage, 'getItem' | 'setItem'>;
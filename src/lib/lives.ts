@@ -0,0 +1,30 @@
+import type { SkierState, SpeedRamp } from './movement';
+import type { PowerUpState } from './pickups';
+
+// --- Lives ---
+// An optional mode where a crash costs a life instead of the run. The skier
+// goes down, then gets back up a little slower, with a moment where nothing
+// can hit them and the obstacles right in front cleared away. Lives runs are
+// kept off the leaderboards, since they can go on past where a run ends.
+
+export const LIVES = 3;
+export const RESPAWN_DELAY = 1; // Seconds the skier stays down after the crash animation, on the clock
+const RESPAWN_GRACE = 3; // Seconds that nothing can hit the skier once they're back up; what they ride through scores nothing
+const CRASH_SPEED_KEPT = 0.7;
+const CLEAR_AHEAD = 40; // How far down the slope obstacles are cleared from the skier
+const CLEAR_WIDTH = 8; // And how far either side
+
+// Knocks the skier down a bit of speed, never below where runs start, points
+// them back down the fall line and gives them the respawn grace
+export function loseLife(skier: SkierState, ramp: SpeedRamp, powerUps: PowerUpState) {
+  skier.speed = Math.max(ramp.start, skier.speed * CRASH_SPEED_KEPT);
+  skier.heading = 0;
+  powerUps.grace = RESPAWN_GRACE;
+}
+
+// Whether an obstacle at (x, z) is close enough in front of a respawning
+// skier to be cleared away. Includes whatever they crashed into.
+export function isClearedOnRespawn(x: number, z: number, skier: SkierState): boolean {
+  return Math.abs(x - skier.x) <= CLEAR_WIDTH && z <= skier.z + 5 && z >= skier.z - CLEAR_AHEAD;
+}
+// --- End Lives ---
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BOUNDARY_X,
+  createSkierState,
+  FORWARD_SPEED,
+  MAX_HEADING,
+  MAX_SPEED,
+  maxHeading,
+  MIN_SPEED,
+  moveSkier,
+  speedAtDistance,
+  steering,
+  TUCK_TOP,
+  updateSpeed,
+  type SkierState,
+} from './movement';
+import { NO_INPUT, SIM_STEP, type InputState } from './replay';
+
+function ski(skier: SkierState, input: Partial<InputState>, seconds: number) {
+  const held = { ...NO_INPUT, ...input };
+  for (let tick = 0; tick < Math.round(seconds / SIM_STEP); tick++) {
+    moveSkier(skier, held, SIM_STEP);
+    updateSpeed(skier, held, SIM_STEP);
+  }
+}
+
+describe('steering', () => {
+  it('turns all the way on a key and as far as the joystick is pushed', () => {
+    expect(steering({ ...NO_INPUT, left: true })).toBe(-1);
+    expect(steering({ ...NO_INPUT, right: true })).toBe(1);
+    expect(steering({ ...NO_INPUT, steer: -0.3 })).toBe(-0.3);
+    expect(steering(NO_INPUT)).toBe(0);
+  });
+});
+
+describe('maxHeading', () => {
+  it('holds the skis furthest off the fall line up to 1x speed', () => {
+    expect(maxHeading(0.5)).toBe(MAX_HEADING);
+    expect(maxHeading(1)).toBe(MAX_HEADING);
+  });
+
+  it('narrows as the skier speeds up', () => {
+    expect(maxHeading(2)).toBeLessThan(maxHeading(1.5));
+    expect(maxHeading(4)).toBeCloseTo(MAX_HEADING / 2);
+  });
+});
+
+describe('moveSkier', () => {
+  it('swings the skis round over time rather than at once', () => {
+    const skier = createSkierState();
+    moveSkier(skier, { ...NO_INPUT, right: true }, SIM_STEP);
+    expect(skier.heading).toBeGreaterThan(0);
+    expect(skier.heading).toBeLessThan(MAX_HEADING / 4);
+  });
+
+  it('swings more slowly the faster the skier goes', () => {
+    const slow = { ...createSkierState(), speed: 1 };
+    const fast = { ...createSkierState(), speed: 3 };
+    moveSkier(slow, { ...NO_INPUT, right: true }, SIM_STEP);
+    moveSkier(fast, { ...NO_INPUT, right: true }, SIM_STEP);
+    expect(fast.heading).toBeCloseTo(slow.heading / 3);
+  });
+
+  it('never points the skis further off the fall line than the speed allows', () => {
+    const skier = { ...createSkierState(), speed: 2 };
+    for (let tick = 0; tick < 120; tick++) {
+      moveSkier(skier, { ...NO_INPUT, left: true }, SIM_STEP);
+      expect(skier.heading).toBeGreaterThanOrEqual(-maxHeading(skier.speed) - 1e-9);
+    }
+    expect(skier.heading).toBeCloseTo(-maxHeading(skier.speed));
+  });
+
+  it('brings the skis back to the fall line when the skier stops steering', () => {
+    const skier = createSkierState();
+    ski(skier, { right: true }, 0.5);
+    ski(skier, {}, 0.5);
+    expect(skier.heading).toBe(0);
+  });
+
+  it('moves the skier the way the skis point', () => {
+    const skier = { ...createSkierState(), heading: 0.3 };
+    moveSkier(skier, { ...NO_INPUT, steer: 0.3 / MAX_HEADING }, SIM_STEP);
+    const distance = FORWARD_SPEED * skier.speed * SIM_STEP;
+    expect(skier.x).toBeCloseTo(distance * Math.sin(0.3));
+    expect(skier.z).toBeCloseTo(-distance * Math.cos(0.3));
+  });
+
+  it('takes some speed for carving a turn', () => {
+    const carving = createSkierState();
+    const straight = createSkierState();
+    moveSkier(carving, { ...NO_INPUT, right: true }, SIM_STEP);
+    moveSkier(straight, NO_INPUT, SIM_STEP);
+    expect(carving.speed).toBeLessThan(straight.speed);
+  });
+
+  it('keeps the skier on the slope', () => {
+    const skier = { ...createSkierState(), x: BOUNDARY_X - 0.1 };
+    ski(skier, { right: true }, 1);
+    expect(skier.x).toBe(BOUNDARY_X);
+  });
+});
+
+describe('updateSpeed', () => {
+  it('speeds the skier up straight down the fall line as speedAtDistance says', () => {
+    const skier = createSkierState();
+    ski(skier, {}, 10);
+    expect(skier.speed).toBeCloseTo(speedAtDistance(-skier.z), 2);
+  });
+
+  it('speeds up less with the skis across the slope', () => {
+    const straight = createSkierState();
+    const across = { ...createSkierState(), heading: MAX_HEADING };
+    updateSpeed(straight, NO_INPUT, 1);
+    updateSpeed(across, NO_INPUT, 1);
+    expect(across.speed).toBeLessThan(straight.speed);
+  });
+
+  it('goes past the top speed with a tuck, and eases back down after', () => {
+    const skier = { ...createSkierState(), speed: MAX_SPEED };
+    ski(skier, { tuck: true }, 30);
+    expect(skier.speed).toBeCloseTo(MAX_SPEED * TUCK_TOP);
+    ski(skier, {}, 30);
+    expect(skier.speed).toBeCloseTo(MAX_SPEED);
+  });
+
+  it('slows the skier in a snowplow, never to a stop', () => {
+    const skier = { ...createSkierState(), speed: 2 };
+    ski(skier, { brake: true }, 1);
+    expect(skier.speed).toBeLessThan(2);
+    ski(skier, { brake: true }, 10);
+    expect(skier.speed).toBe(MIN_SPEED);
+  });
+});
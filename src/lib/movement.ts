@@ -0,0 +1,104 @@
+import type { InputState } from './replay';
+
+// --- Skier Movement ---
+// Shared by the live simulation in GameScene and by anything that needs to
+// re-trace a run from its inputs (ghosts), so both always move identically.
+//
+// The skier travels the way their skis point. Steering swings the skis off the
+// fall line, and carving a turn trades some speed for the new direction. The
+// slope pulls hardest straight down it; tucking adds to that and a snowplow
+// brakes against it.
+
+export const FORWARD_SPEED = 40; // Units per second at 1.0x speed
+export const BOUNDARY_X = 50;
+export const START_SPEED = 1;
+export const MAX_SPEED = 3;
+export const SPEED_RAMP = 0.01; // Speed multiplier the slope adds per second
+
+export const MAX_HEADING = 0.6; // Furthest the skis point off the fall line at up to 1x speed, in radians
+export const MIN_SPEED = 0.4; // A snowplow slows the skier down to this, never to a stop
+export const TUCK_TOP = 1.2; // Tucking goes this much past the top speed
+
+const TURN_RATE = 3; // Radians per second the skis swing at 1x speed; slower when faster
+const CARVE_COST = 0.01; // Share of speed lost per radian the skis swing
+const TUCK_ACCEL = 0.03; // Speed multiplier gained per second on top of the slope's
+const SNOWPLOW_DECEL = 0.5; // Speed multiplier lost per second
+const OVERSPEED_DRAG = 0.1; // Speed multiplier lost per second above the top speed
+
+// The skier's collision box, centred on the skier across the slope
+export const SKIER_HITBOX = { width: 1.2, depth: 1.0, height: 6.0 } as const;
+
+// How the slope speeds the skier up over a run (see difficulty.ts)
+export interface SpeedRamp {
+  start: number;
+  perSecond: number; // Skiing straight down the fall line
+  max: number; // Without tucking
+}
+
+const DEFAULT_SPEED_RAMP: SpeedRamp = { start: START_SPEED, perSecond: SPEED_RAMP, max: MAX_SPEED };
+
+export interface SkierState {
+  x: number;
+  z: number;
+  speed: number;
+  heading: number; // Radians off the fall line, positive towards +x
+}
+
+export function createSkierState(z = 0, ramp: SpeedRamp = DEFAULT_SPEED_RAMP): SkierState {
+  return { x: 0, z, speed: ramp.start, heading: 0 };
+}
+
+// How hard the skier is turning, from -1 (full left) to 1 (full right). Keys
+// turn all the way; the joystick turns as far as it's pushed.
+export function steering(input: InputState): number {
+  if (input.left) return -1;
+  if (input.right) return 1;
+  return input.steer;
+}
+
+// The faster the skier goes, the less far off the fall line they can hold the skis
+export function maxHeading(speed: number): number {
+  return MAX_HEADING / Math.sqrt(Math.max(1, speed));
+}
+
+// Swings the skis towards where the skier is steering, back to the fall line
+// when they aren't, then moves the skier for one step the way the skis point.
+// Speed is updated separately with updateSpeed, after collisions have been checked.
+export function moveSkier(skier: SkierState, input: InputState, deltaTime: number) {
+  const target = steering(input) * maxHeading(skier.speed);
+  const swing = (TURN_RATE / Math.max(1, skier.speed)) * deltaTime;
+  const heading = skier.heading + Math.max(-swing, Math.min(swing, target - skier.heading));
+  skier.speed = Math.max(MIN_SPEED, skier.speed * (1 - CARVE_COST * Math.abs(heading - skier.heading)));
+  skier.heading = heading;
+
+  const distance = FORWARD_SPEED * skier.speed * deltaTime;
+  skier.z -= distance * Math.cos(skier.heading);
+  skier.x += distance * Math.sin(skier.heading);
+
+  skier.x = Math.max(-BOUNDARY_X, Math.min(BOUNDARY_X, skier.x));
+}
+
+// Straight down the fall line without tucking, speed builds the same way at
+// every point of a slope skied from the start line:
+// distance = FORWARD_SPEED * (start * t + perSecond * t² / 2)
+export function speedAtDistance(distance: number, ramp: SpeedRamp = DEFAULT_SPEED_RAMP): number {
+  const speed = Math.sqrt(ramp.start * ramp.start + (2 * ramp.perSecond * Math.max(0, distance)) / FORWARD_SPEED);
+  return Math.min(ramp.max, speed);
+}
+
+// The slope's pull along the skis, plus a tuck or less a snowplow. Above the
+// top speed (after a tuck, say) the skier eases back down to it.
+export function updateSpeed(skier: SkierState, input: InputState, deltaTime: number, ramp: SpeedRamp = DEFAULT_SPEED_RAMP) {
+  const top = input.tuck ? ramp.max * TUCK_TOP : ramp.max;
+  if (skier.speed > top) {
+    skier.speed = Math.max(top, skier.speed - OVERSPEED_DRAG * deltaTime);
+  } else {
+    const pull = ramp.perSecond * Math.cos(skier.heading) + (input.tuck ? TUCK_ACCEL : 0);
+    skier.speed = Math.min(top, skier.speed + pull * deltaTime);
+  }
+  if (input.brake) {
+    skier.speed -= SNOWPLOW_DECEL * deltaTime;
+  }
+  skier.speed = Math.max(MIN_SPEED, skier.speed);
+}
+// --- End Skier Movement ---
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { FORWARD_SPEED, SKIER_HITBOX } from './movement';
+import { checkCollision, nearMissClearance, obstacleFootprint, type Obstacle } from './obstacles';
+import { NO_INPUT, SIM_STEP } from './replay';
+import { awardNearMiss, createComboState } from './scoring';
+import { createAirState, GRAVITY, HOP_VELOCITY, launch, updateAir } from './tricks';
+
+const ROCK: Obstacle = { type: 'rock', position: new THREE.Vector3(0, 0, 0), id: 'rock' };
+const SPEED = 1;
+
+// Skis straight down past the rock `x` across from it, hopping so the top of
+// the jump comes over its row if `hop` is set, and judges near misses the way
+// a run does. Returns the skill points earned, or null if the skier hit it.
+function skiPast(x: number, hop: boolean): number | null {
+  const combo = createComboState();
+  const air = createAirState();
+  const takeoff = FORWARD_SPEED * SPEED * (HOP_VELOCITY / GRAVITY);
+  const position = new THREE.Vector3(x, air.y, takeoff + 10);
+  while (position.z > ROCK.position.z - 10) {
+    if (hop && position.z <= takeoff) launch(air, HOP_VELOCITY);
+    updateAir(air, NO_INPUT, SIM_STEP);
+    const previousZ = position.z;
+    position.set(x, air.y, position.z - FORWARD_SPEED * SPEED * SIM_STEP);
+    if (checkCollision(position, ROCK)) return null;
+    if (ROCK.position.z < previousZ && ROCK.position.z >= position.z) {
+      const clearance = nearMissClearance(position, ROCK);
+      if (clearance !== null) awardNearMiss(combo, clearance, 1, ROCK.position.z);
+    }
+  }
+  return combo.bonus;
+}
+
+describe('nearMissClearance', () => {
+  const touching = SKIER_HITBOX.width / 2 + obstacleFootprint(ROCK)!.halfWidth; // Skier's x where the boxes meet
+
+  it('pays for skiing close past an obstacle', () => {
+    expect(skiPast(touching + 0.2, false)).toBeGreaterThan(0);
+  });
+
+  it('pays nothing for passing well clear', () => {
+    expect(skiPast(touching + 5, false)).toBe(0);
+  });
+
+  it('pays nothing for jumping straight over an obstacle', () => {
+    expect(skiPast(0, true)).toBe(0);
+  });
+
+  it('pays nothing across the slope from an obstacle the skier is over', () => {
+    expect(nearMissClearance(new THREE.Vector3(0, 5, 0), ROCK)).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import type { Footprint } from './corridor';
+import type { ObstacleKind } from './gameEvents';
+import { SKIER_HITBOX } from './movement';
+import { NEAR_MISS_DISTANCE } from './scoring';
+
+// --- Obstacles ---
+// What stands on the slope: how each obstacle is sized and drawn, and the
+// collision boxes the simulation checks the skier's box against. Kept apart
+// from the scene so the generator and the tests see the same boxes as a run.
+
+export const OBSTACLES = {
+  tree: {
+    scale: { x: 5, y: 5, z: 5 },
+    yOffset: 2,
+    collisionRadius: 0.3,
+    collisionHeight: 2,
+    color: '#964B00',
+  },
+  rock: {
+    scale: { x: 2, y: 2, z: 2 },
+    yOffset: -1.5,
+    collisionRadius: 1.0,
+    collisionHeight: 1.5,
+    color: '#808080',
+  },
+  bump: {
+    scale: { x: 1, y: 1, z: 1 },
+    yOffset: -2.85,
+    collisionRadius: 0.4,
+    collisionHeight: 0.3,
+    launch: 22, // Launchers send the skier up instead of ending the run, over a rock at least
+    color: '#ffffff',
+  },
+  pole: {
+    scale: { x: 3.75, y: 3.75, z: 3.75 },
+    yOffset: 1,
+    collisionRadius: 0.3,
+    collisionSegments: [
+      { height: 3, radius: 0.3, yOffset: 0 },
+      { height: 1, radius: 0.3, yOffset: 2.5 },
+    ],
+    color: '#808080',
+  },
+  ramp: {
+    scale: { x: 1, y: 1, z: 1 },
+    yOffset: -2.15,
+    collisionRadius: 2,
+    collisionHeight: 1,
+    launch: 26,
+    color: '#7dd3fc',
+  },
+} as const;
+
+export interface Obstacle {
+  type: ObstacleKind;
+  position: THREE.Vector3;
+  id: string;
+}
+
+export interface CollisionBounds {
+  min: THREE.Vector3;
+  max: THREE.Vector3;
+}
+
+export function getPlayerBounds(playerPosition: THREE.Vector3): CollisionBounds {
+  const { width: playerWidth, depth: playerDepth, height: playerHeight } = SKIER_HITBOX;
+
+  return {
+    min: new THREE.Vector3(
+      playerPosition.x - playerWidth / 2,
+      playerPosition.y - 3, // Changed from -4 to -3
+      playerPosition.z - playerDepth / 2
+    ),
+    max: new THREE.Vector3(
+      playerPosition.x + playerWidth / 2,
+      playerPosition.y + playerHeight - 2, // Changed from -4 to -2
+      playerPosition.z + playerDepth / 2
+    ),
+  };
+}
+
+export function getObstacleBounds(obstacle: Obstacle): CollisionBounds[] {
+  const config = OBSTACLES[obstacle.type];
+  const obstaclePosition = obstacle.position;
+
+  // Check if object has collisionSegments (for poles)
+  if ('collisionSegments' in config) {
+    // For poles with segments
+    return config.collisionSegments.map(segment => {
+      const obstacleRadius = segment.radius * config.scale.x;
+      const obstacleHeight = segment.height * config.scale.y;
+      return {
+        min: new THREE.Vector3(
+          obstaclePosition.x - obstacleRadius,
+          obstaclePosition.y + segment.yOffset,
+          obstaclePosition.z - obstacleRadius
+        ),
+        max: new THREE.Vector3(
+          obstaclePosition.x + obstacleRadius,
+          obstaclePosition.y + segment.yOffset + obstacleHeight,
+          obstaclePosition.z + obstacleRadius
+        ),
+      };
+    });
+  }
+
+  // For regular obstacles with collisionHeight
+  const obstacleRadius = config.collisionRadius * config.scale.x;
+  // Type safe access to collisionHeight with a fallback
+  const obstacleHeight = ('collisionHeight' in config ? config.collisionHeight : 2) * config.scale.y;
+
+  return [{
+    min: new THREE.Vector3(
+      obstaclePosition.x - obstacleRadius,
+      obstaclePosition.y,
+      obstaclePosition.z - obstacleRadius
+    ),
+    max: new THREE.Vector3(
+      obstaclePosition.x + obstacleRadius,
+      obstaclePosition.y + obstacleHeight,
+      obstaclePosition.z + obstacleRadius
+    ),
+  }];
+}
+
+export function boundsOverlap(a: CollisionBounds, b: CollisionBounds): boolean {
+  return (
+    a.max.x >= b.min.x &&
+    a.min.x <= b.max.x &&
+    a.max.y >= b.min.y &&
+    a.min.y <= b.max.y &&
+    a.max.z >= b.min.z &&
+    a.min.z <= b.max.z
+  );
+}
+
+export function checkCollision(playerPosition: THREE.Vector3, obstacle: Obstacle): boolean {
+  const player = getPlayerBounds(playerPosition);
+  return getObstacleBounds(obstacle).some(bounds => boundsOverlap(player, bounds));
+}
+
+// How close the skier came to an obstacle whose row they're crossing: the gap
+// between the two collision boxes across the slope (x and z). Null when it's
+// no near miss: too far off, or the boxes overlap there, so the skier went
+// through the obstacle or over the top of it.
+export function nearMissClearance(playerPosition: THREE.Vector3, obstacle: Obstacle): number | null {
+  const player = getPlayerBounds(playerPosition);
+  let clearance = Infinity;
+  for (const bounds of getObstacleBounds(obstacle)) {
+    const gapX = Math.max(0, bounds.min.x - player.max.x, player.min.x - bounds.max.x);
+    const gapZ = Math.max(0, bounds.min.z - player.max.z, player.min.z - bounds.max.z);
+    clearance = Math.min(clearance, Math.hypot(gapX, gapZ));
+  }
+  return clearance > 0 && clearance < NEAR_MISS_DISTANCE ? clearance : null;
+}
+
+// The part of the slope an obstacle blocks. Launchers are ridden over, so they block nothing.
+export function obstacleFootprint(obstacle: Obstacle): Footprint | null {
+  if ('launch' in OBSTACLES[obstacle.type]) return null;
+  const halfWidth = Math.max(...getObstacleBounds(obstacle).map(bounds => (bounds.max.x - bounds.min.x) / 2));
+  return { x: obstacle.position.x, z: obstacle.position.z, halfWidth };
+}
+// --- End Obstacles ---
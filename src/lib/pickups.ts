@@ -0,0 +1,103 @@
+import type { Rng } from './random';
+
+// --- Pickups ---
+// Things on the slope the skier collects by skiing through them. Coins and
+// flags score points; power-ups switch on an effect for a while. Effects run
+// on simulation time, so a replay gets the same ones for the same ticks.
+
+export type PowerUpKind = 'shield' | 'slow-motion' | 'magnet' | 'repellent';
+
+export type PickupKind = 'coin' | 'flag' | PowerUpKind;
+
+export const POWER_UP_KINDS: readonly PowerUpKind[] = ['shield', 'slow-motion', 'magnet', 'repellent'];
+
+export const PICKUP_POINTS: Record<Exclude<PickupKind, PowerUpKind>, number> = {
+  coin: 25,
+  flag: 100,
+};
+
+export const POWER_UPS: Record<PowerUpKind, { label: string; duration: number }> = {
+  shield: { label: 'Shield', duration: 20 }, // Or until it takes a hit
+  'slow-motion': { label: 'Slow motion', duration: 4 },
+  magnet: { label: 'Coin magnet', duration: 10 },
+  repellent: { label: 'Yeti repellent', duration: 12 },
+};
+
+export const SLOW_MOTION_SCALE = 0.5; // Simulation seconds per real second while slowed
+export const MAGNET_REACH = 12; // How far coins and flags are pulled in from
+const SHIELD_GRACE = 1; // Seconds after the shield breaks before anything else can hit the skier
+
+export interface PowerUpState {
+  timers: Record<PowerUpKind, number>; // Seconds left on each effect
+  grace: number; // Seconds left that nothing can hit the skier
+}
+
+export function createPowerUpState(): PowerUpState {
+  return { timers: { shield: 0, 'slow-motion': 0, magnet: 0, repellent: 0 }, grace: 0 };
+}
+
+export function isPowerUp(kind: PickupKind): kind is PowerUpKind {
+  return POWER_UP_KINDS.includes(kind as PowerUpKind);
+}
+
+export function isActive(state: PowerUpState, kind: PowerUpKind): boolean {
+  return state.timers[kind] > 0;
+}
+
+// Applies a pickup. Returns the points it scores.
+export function collectPickup(state: PowerUpState, kind: PickupKind): number {
+  if (!isPowerUp(kind)) return PICKUP_POINTS[kind];
+  // Picking up an effect that's already running starts it over
+  state.timers[kind] = POWER_UPS[kind].duration;
+  return 0;
+}
+
+export function tickPowerUps(state: PowerUpState, deltaTime: number) {
+  for (const kind of POWER_UP_KINDS) {
+    state.timers[kind] = Math.max(0, state.timers[kind] - deltaTime);
+  }
+  state.grace = Math.max(0, state.grace - deltaTime);
+}
+
+// Whether something that would end the run is shrugged off instead. A shield
+// takes one hit, then gives the skier a moment to get clear.
+export function absorbHit(state: PowerUpState): boolean {
+  if (state.grace > 0) return true;
+  if (!isActive(state, 'shield')) return false;
+  state.timers.shield = 0;
+  state.grace = SHIELD_GRACE;
+  return true;
+}
+
+// How fast the simulation runs against the clock
+export function timeScale(state: PowerUpState): number {
+  return isActive(state, 'slow-motion') ? SLOW_MOTION_SCALE : 1;
+}
+
+// --- Placement ---
+// Rolled for each empty cell of the obstacle grid
+
+const PICKUP_CHANCE = 0.025;
+const COIN_TRAIL = 4; // Coins come in a short line down the slope
+const COIN_SPACING = 4;
+
+const PICKUP_WEIGHTS: Record<PickupKind, number> = {
+  coin: 0.7,
+  flag: 0.12,
+  shield: 0.05,
+  'slow-motion': 0.05,
+  magnet: 0.05,
+  repellent: 0.03,
+};
+
+// What turns up in a cell, and where, if anything
+export function rollPickups(rng: Rng, x: number, z: number): { kind: PickupKind; x: number; z: number }[] {
+  if (rng() >= PICKUP_CHANCE) return [];
+  const kinds = Object.keys(PICKUP_WEIGHTS) as PickupKind[];
+  let threshold = rng() * kinds.reduce((total, kind) => total + PICKUP_WEIGHTS[kind], 0);
+  const kind = kinds.find(k => (threshold -= PICKUP_WEIGHTS[k]) < 0) ?? 'coin';
+  if (kind !== 'coin') return [{ kind, x, z }];
+  return Array.from({ length: COIN_TRAIL }, (_, i) => ({ kind, x, z: z - i * COIN_SPACING }));
+}
+// --- End Placement ---
+// --- End Pickups ---
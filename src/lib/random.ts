@@ -0,0 +1,70 @@
+// Seedable pseudo-random number generation.
+//
+// Everything that shapes a run (obstacle layout, yeti spawns, snow) draws from
+// an Rng derived from the run seed, so the same seed and the same inputs always
+// produce the same run.
+
+export type Rng = () => number;
+
+// Mulberry32: tiny, fast and good enough for gameplay randomness.
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Mix a seed with one or more salts into an independent 32-bit seed. Used to
+// give each slope segment and subsystem its own stream, so generating segment 5
+// before segment 4 (or spawning a yeti) never shifts anyone else's numbers.
+export function deriveSeed(seed: number, ...salts: number[]): number {
+  let h = seed >>> 0;
+  for (const salt of salts) {
+    h = Math.imul(h ^ (salt | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+}
+
+// Fresh seed for a new run. This is the one place Math.random is allowed.
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
+
+export function parseSeed(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const trimmed = text.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+}
+
+// Stream salts for the subsystems that consume randomness.
+export const RNG_STREAMS = {
+  terrain: 1,
+  yeti: 2,
+  snow: 3,
+  course: 4,
+  corridor: 5,
+  hazards: 6,
+  pickups: 7,
+} as const;
+
+// FNV-1a, for turning strings (like a calendar day) into seeds.
+export function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
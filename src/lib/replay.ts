@@ -0,0 +1,199 @@
+import type { GameMode } from './daily';
+import { parseCourseFile, type CourseFile } from './course';
+import { isDifficulty, type Difficulty } from './difficulty';
+
+// The simulation advances in fixed steps so that a seed plus an input log
+// reproduces a run exactly, regardless of the display's frame rate.
+export const SIM_STEP = 1 / 60;
+
+// Version 2 added the jump, spin and grab inputs. Version 1 replays still
+// load, but bumps no longer end a run, so one that did plays on to its end tick.
+// Version 3 slopes keep a passable corridor clear (see corridor.ts), so an
+// older replay can play on past an obstacle that has since been cleared.
+// Version 4 yetis follow behaviours (see yeti.ts), so older replays meet
+// different yetis from the ones they were recorded against.
+// Version 5 slopes have moving hazards (see hazards.ts) that older runs
+// never met.
+// Version 6 slopes have pickups (see pickups.ts), and a shield can carry a
+// run on past what would have ended an older one.
+// Version 7 records how many lives the run had (see lives.ts); older runs had one.
+// Version 8 skiers carve, tuck and snowplow with slope physics (see
+// movement.ts), and their corridors are planned for that movement, so older
+// replays steer a skier who no longer moves the way they did, down a slope
+// that's since been laid out differently.
+export const REPLAY_VERSION = 8;
+const SUPPORTED_REPLAY_VERSIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+// Older replays still load, so past runs stay on the boards to watch and race,
+// but each bump above changed the game under them and they rarely play out the
+// way they were skied. They're labelled wherever they're watched or raced.
+export function isOutdatedReplay(replay: Pick<Replay, 'version'>): boolean {
+  return replay.version < REPLAY_VERSION;
+}
+
+export type ReplayInput = 'left' | 'right' | 'jump' | 'spin' | 'grab' | 'tuck' | 'brake';
+
+export const STEER_STEPS = 10; // The joystick's turn is sampled to the nearest tenth
+
+// [tick, input, pressed] – a press (1) or release (0) sampled at the start of a tick,
+// or [tick, 'steer', steps] – the joystick's turn, in STEER_STEPS from -STEER_STEPS to STEER_STEPS
+export type ReplayEvent = [number, ReplayInput, 0 | 1] | [number, 'steer', number];
+
+export interface InputState {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  spin: boolean;
+  grab: boolean;
+  tuck: boolean;
+  brake: boolean; // Snowplow
+  steer: number; // The joystick's turn from -1 to 1, see quantizeSteer; keys leave it at 0
+}
+
+export const NO_INPUT: InputState = {
+  left: false,
+  right: false,
+  jump: false,
+  spin: false,
+  grab: false,
+  tuck: false,
+  brake: false,
+  steer: 0,
+};
+
+// Rounds an analog turn to the steps a replay records, so a run and its
+// replay steer by exactly the same amounts
+export function quantizeSteer(steer: number): number {
+  return Math.round(Math.max(-1, Math.min(1, steer)) * STEER_STEPS) / STEER_STEPS;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  dailyKey?: string;
+  course?: CourseFile; // The course file the run was on; generated slalom courses come back from the seed
+  difficulty: Difficulty; // Replays from before difficulty presets were all on normal
+  lives: number;
+  events: ReplayEvent[];
+  endTick: number; // Tick on which the run crashed
+  score: number;
+  time: number;
+  recordedAt: string;
+}
+
+const REPLAY_INPUTS: ReplayInput[] = ['left', 'right', 'jump', 'spin', 'grab', 'tuck', 'brake'];
+
+// Append press/release events for whatever changed between two input samples
+export function recordInputChanges(events: ReplayEvent[], tick: number, prev: InputState, next: InputState) {
+  for (const input of REPLAY_INPUTS) {
+    if (prev[input] !== next[input]) {
+      events.push([tick, input, next[input] ? 1 : 0]);
+    }
+  }
+  if (prev.steer !== next.steer) {
+    events.push([tick, 'steer', Math.round(next.steer * STEER_STEPS)]);
+  }
+}
+
+// Returns a function that yields the input state for each tick, in order.
+// Ticks must be requested monotonically, which is how the simulation consumes them.
+export function createReplayCursor(replay: Replay): (tick: number) => InputState {
+  let index = 0;
+  const state: InputState = { ...NO_INPUT };
+  return (tick: number) => {
+    while (index < replay.events.length && replay.events[index][0] <= tick) {
+      const event = replay.events[index];
+      if (event[1] === 'steer') {
+        state.steer = event[2] / STEER_STEPS;
+      } else {
+        state[event[1]] = event[2] === 1;
+      }
+      index++;
+    }
+    return { ...state };
+  };
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isReplayEvent(value: unknown): value is ReplayEvent {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    Number.isInteger(value[0]) &&
+    value[0] >= 0 &&
+    (value[1] === 'steer'
+      ? Number.isInteger(value[2]) && Math.abs(value[2]) <= STEER_STEPS
+      : REPLAY_INPUTS.includes(value[1]) && (value[2] === 0 || value[2] === 1))
+  );
+}
+
+// Validates untrusted JSON (an imported file or a leaderboard row) as a Replay
+export function parseReplay(data: unknown): Replay {
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Replay must be a JSON object');
+  }
+  const replay = data as Partial<Replay>;
+
+  if (!SUPPORTED_REPLAY_VERSIONS.includes(replay.version as number)) {
+    throw new Error(`Unsupported replay version: ${String(replay.version)}`);
+  }
+  if (!Number.isInteger(replay.seed) || replay.seed! < 0 || replay.seed! > 0xffffffff) {
+    throw new Error('Replay has an invalid seed');
+  }
+  if (replay.mode !== 'endless' && replay.mode !== 'daily' && replay.mode !== 'slalom') {
+    throw new Error('Replay has an invalid mode');
+  }
+  if (replay.difficulty !== undefined && !isDifficulty(replay.difficulty)) {
+    throw new Error('Replay has an invalid difficulty');
+  }
+  if (replay.lives !== undefined && (!Number.isInteger(replay.lives) || replay.lives < 1)) {
+    throw new Error('Replay has an invalid number of lives');
+  }
+  const course = replay.course !== undefined ? parseCourseFile(replay.course) : undefined;
+  if (!Array.isArray(replay.events) || !replay.events.every(isReplayEvent)) {
+    throw new Error('Replay has malformed input events');
+  }
+  if (!Number.isInteger(replay.endTick) || replay.endTick! < 0) {
+    throw new Error('Replay has an invalid end tick');
+  }
+
+  return {
+    version: replay.version!,
+    seed: replay.seed!,
+    mode: replay.mode,
+    dailyKey: typeof replay.dailyKey === 'string' ? replay.dailyKey : undefined,
+    course,
+    difficulty: replay.difficulty ?? 'normal',
+    lives: replay.lives ?? 1,
+    events: replay.events,
+    endTick: replay.endTick!,
+    score: Number(replay.score) || 0,
+    time: Number(replay.time) || 0,
+    recordedAt: typeof replay.recordedAt === 'string' ? replay.recordedAt : new Date(0).toISOString(),
+  };
+}
+
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vibeskiing-replay-${Math.floor(replay.score)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readReplayFile(file: File): Promise<Replay> {
+  const text = await file.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  return parseReplay(data);
+}
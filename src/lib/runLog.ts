@@ -0,0 +1,179 @@
+import { getConfiguredSupabaseClient } from './leaderboard';
+import { getClientId } from './supabase';
+import type { GameMode } from './daily';
+import type { ObstacleKind } from './gameEvents';
+import type { HazardKind } from './hazards';
+
+// --- Run Logs ---
+// Every finished run is logged on this device, whether or not it made a
+// leaderboard, and uploaded to the server when there is one. The stats screen
+// is built from these.
+
+// What ended the run: an obstacle type from OBSTACLES, a moving hazard, the
+// yeti, or a bad landing. Bumps and ramps launch the skier now, but older logs
+// name them.
+export type CrashCause = ObstacleKind | HazardKind | 'yeti' | 'landing';
+
+export const CRASH_CAUSE_LABELS: Record<CrashCause, string> = {
+  tree: 'Tree',
+  rock: 'Rock',
+  bump: 'Bump',
+  pole: 'Pole',
+  ramp: 'Ramp',
+  skier: 'Another skier',
+  snowmobile: 'Snowmobile',
+  debris: 'Avalanche debris',
+  chairlift: 'Chairlift',
+  yeti: 'Yeti',
+  landing: 'Landing',
+};
+
+// How a run ended, as reported by the simulation
+export interface RunResult {
+  score: number;
+  time: number; // Seconds
+  distance: number; // Metres skied downhill
+  topSpeed: number; // Highest speed multiplier reached
+  crashCause: CrashCause | null;
+}
+
+export interface RunLog extends RunResult {
+  id: string;
+  mode: GameMode;
+  seed: number;
+  day: string | null; // Set for daily runs
+  endedAt: string;
+  uploaded?: boolean;
+}
+
+const STORAGE_KEY = 'vibeskiing:run-logs';
+const MAX_STORED_LOGS = 500; // Oldest logs are dropped beyond this
+
+let logs: RunLog[] | null = null;
+const listeners = new Set<() => void>();
+
+function read(): RunLog[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RunLog[]) : [];
+  } catch (err) {
+    console.error('Discarding unreadable run logs:', err);
+    return [];
+  }
+}
+
+function write(next: RunLog[]) {
+  logs = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error('Error saving run logs:', err);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Oldest first. Returns the same array until a log is added, so it works as
+// a useSyncExternalStore snapshot.
+export function getRunLogs(): RunLog[] {
+  logs ??= read();
+  return logs;
+}
+
+export function subscribeRunLogs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function addRunLog(log: RunLog) {
+  write([...getRunLogs(), log].slice(-MAX_STORED_LOGS));
+  syncRunLogs();
+}
+
+// --- Server Sync ---
+let syncing: Promise<void> | null = null;
+let retryWhenOnline = false;
+
+// Resolves to false if the server couldn't be reached and the upload should be retried
+async function uploadRunLog(log: RunLog): Promise<boolean> {
+  const supabase = getConfiguredSupabaseClient();
+  if (!supabase) return false;
+
+  const { error } = await supabase.rpc('log_run', {
+    p_id: log.id,
+    p_mode: log.mode,
+    p_seed: log.seed,
+    p_day: log.day,
+    p_score: Math.floor(log.score),
+    p_time: log.time,
+    p_distance: log.distance,
+    p_top_speed: log.topSpeed,
+    p_crash_cause: log.crashCause,
+    p_ended_at: log.endedAt,
+    p_client_id: getClientId(),
+  });
+  if (error) {
+    console.error('Error uploading run log:', error);
+    // Only a fetch that never reached the server lacks a code; a rejected log
+    // is marked done so it doesn't block the ones after it
+    return Boolean(error.code);
+  }
+  return true;
+}
+
+// Uploads logs the server hasn't seen yet, oldest first, stopping while the
+// server is unreachable. Uploads are idempotent on the log id, so retrying is always safe.
+export function syncRunLogs(): Promise<void> {
+  if (syncing) return syncing;
+  if (!getConfiguredSupabaseClient()) return Promise.resolve();
+
+  if (!retryWhenOnline) {
+    retryWhenOnline = true;
+    window.addEventListener('online', () => {
+      syncRunLogs();
+    });
+  }
+
+  syncing = (async () => {
+    for (const log of getRunLogs().filter(l => !l.uploaded)) {
+      if (!(await uploadRunLog(log))) break;
+      write(getRunLogs().map(l => (l.id === log.id ? { ...l, uploaded: true } : l)));
+    }
+  })().finally(() => {
+    syncing = null;
+  });
+
+  return syncing;
+}
+
+// A signed-in player's logs from every device, oldest first. Empty for guests:
+// the server only returns logs linked to the session's account.
+export async function fetchAccountRunLogs(): Promise<RunLog[]> {
+  const supabase = getConfiguredSupabaseClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('run_logs')
+    .select('id, mode, seed, day, score, time, distance, top_speed, crash_cause, ended_at')
+    .order('ended_at', { ascending: false })
+    .limit(MAX_STORED_LOGS);
+
+  if (error) {
+    console.error('Error fetching run logs:', error);
+    return [];
+  }
+  return data.reverse().map(row => ({
+    id: row.id,
+    mode: row.mode,
+    seed: row.seed,
+    day: row.day,
+    score: row.score,
+    time: row.time,
+    distance: row.distance,
+    topSpeed: row.top_speed,
+    crashCause: row.crash_cause,
+    endedAt: row.ended_at,
+    uploaded: true,
+  }));
+}
+// --- End Server Sync ---
+// --- End Run Logs ---
@@ -0,0 +1,53 @@
+import type { CrashCause, RunLog } from './runLog';
+
+// --- Run Statistics ---
+// Aggregates for the stats screen, computed from run logs
+
+export interface RunSummary {
+  runs: number;
+  bestScore: number;
+  averageScore: number;
+  bestTime: number;
+  averageTime: number;
+  bestDistance: number;
+  totalDistance: number;
+  topSpeed: number;
+  crashCauses: { cause: CrashCause; count: number }[]; // Most common first
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function summarizeRuns(logs: RunLog[]): RunSummary {
+  const causes = new Map<CrashCause, number>();
+  for (const log of logs) {
+    if (log.crashCause) {
+      causes.set(log.crashCause, (causes.get(log.crashCause) ?? 0) + 1);
+    }
+  }
+
+  return {
+    runs: logs.length,
+    bestScore: Math.max(0, ...logs.map(l => l.score)),
+    averageScore: average(logs.map(l => l.score)),
+    bestTime: Math.max(0, ...logs.map(l => l.time)),
+    averageTime: average(logs.map(l => l.time)),
+    bestDistance: Math.max(0, ...logs.map(l => l.distance)),
+    totalDistance: logs.reduce((sum, l) => sum + l.distance, 0),
+    topSpeed: Math.max(0, ...logs.map(l => l.topSpeed)),
+    crashCauses: [...causes.entries()]
+      .map(([cause, count]) => ({ cause, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+// Local and server logs together, each run once, oldest first
+export function mergeRunLogs(...sources: RunLog[][]): RunLog[] {
+  const byId = new Map<string, RunLog>();
+  for (const log of sources.flat()) {
+    byId.set(log.id, log);
+  }
+  return [...byId.values()].sort((a, b) => a.endedAt.localeCompare(b.endedAt));
+}
+// --- End Run Statistics ---
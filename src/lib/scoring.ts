@@ -0,0 +1,96 @@
+import { MIN_GRAB_TIME, type Trick } from './tricks';
+
+// --- Skill Scoring ---
+// On top of the time × speed base score, skiing close to obstacles earns
+// bonuses. Near misses chain into a combo that multiplies every bonus, as long
+// as the next one comes before the combo window runs out. Passing obstacles on
+// both sides in quick succession (threading the gap) earns extra, and landed
+// tricks (see tricks.ts) keep the combo going too.
+// Runs inside the fixed-step simulation, so replays reproduce it exactly.
+
+export const NEAR_MISS_DISTANCE = 1.5; // Widest gap between collision boxes that still counts
+export const NEAR_MISS_POINTS = 25; // For a whisker-thin gap; down to NEAR_MISS_MIN_POINTS at the widest
+export const NEAR_MISS_MIN_POINTS = 10;
+export const THREAD_POINTS = 100;
+export const THREAD_WINDOW_Z = 6; // Near misses on opposite sides this close together thread the gap
+export const COMBO_WINDOW = 2.5; // Seconds to land the next near miss before the combo breaks
+export const COMBO_STEP = 0.5; // Multiplier gained per chained near miss
+export const MAX_MULTIPLIER = 5;
+export const SPIN_POINTS = 150; // Per full turn
+export const GRAB_POINTS = 50;
+export const GRAB_POINTS_PER_SECOND = 100;
+
+export interface ComboState {
+  count: number; // Near misses in the current chain
+  timer: number; // Seconds left to extend it
+  lastSide: -1 | 0 | 1; // Which side of the skier the last near miss was on
+  lastZ: number;
+  bonus: number; // Total skill points this run
+}
+
+export type SkillAwardKind = 'near-miss' | 'thread' | 'trick';
+
+export interface SkillAward {
+  kind: SkillAwardKind;
+  points: number;
+  multiplier: number;
+  label?: string; // The trick's name
+}
+
+export function createComboState(): ComboState {
+  return { count: 0, timer: 0, lastSide: 0, lastZ: 0, bonus: 0 };
+}
+
+export function comboMultiplier(combo: ComboState): number {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.max(0, combo.count - 1) * COMBO_STEP);
+}
+
+// Scores a near miss with `clearance` between the boxes. `side` is which side
+// of the skier the obstacle was on and `z` where it was passed.
+export function awardNearMiss(combo: ComboState, clearance: number, side: -1 | 1, z: number): SkillAward[] {
+  combo.count++;
+  combo.timer = COMBO_WINDOW;
+  const multiplier = comboMultiplier(combo);
+  const closeness = 1 - Math.min(1, clearance / NEAR_MISS_DISTANCE);
+  const awards: SkillAward[] = [{
+    kind: 'near-miss',
+    points: Math.round((NEAR_MISS_MIN_POINTS + (NEAR_MISS_POINTS - NEAR_MISS_MIN_POINTS) * closeness) * multiplier),
+    multiplier,
+  }];
+
+  if (combo.lastSide === -side && Math.abs(combo.lastZ - z) <= THREAD_WINDOW_Z) {
+    awards.push({ kind: 'thread', points: Math.round(THREAD_POINTS * multiplier), multiplier });
+    combo.lastSide = 0; // One gap, one bonus
+  } else {
+    combo.lastSide = side;
+  }
+  combo.lastZ = z;
+
+  for (const award of awards) {
+    combo.bonus += award.points;
+  }
+  return awards;
+}
+
+// Scores a cleanly landed trick, which counts as a link in the combo
+export function awardTrick(combo: ComboState, trick: Trick): SkillAward {
+  combo.count++;
+  combo.timer = COMBO_WINDOW;
+  const multiplier = comboMultiplier(combo);
+  const grabPoints = trick.grabTime >= MIN_GRAB_TIME ? GRAB_POINTS + trick.grabTime * GRAB_POINTS_PER_SECOND : 0;
+  const points = Math.round((trick.spins * SPIN_POINTS + grabPoints) * multiplier);
+  combo.bonus += points;
+  return { kind: 'trick', points, multiplier, label: trick.name };
+}
+
+// Runs the combo window down. Returns true on the step the combo breaks.
+export function tickCombo(combo: ComboState, deltaTime: number): boolean {
+  if (combo.count === 0) return false;
+  combo.timer -= deltaTime;
+  if (combo.timer > 0) return false;
+  combo.count = 0;
+  combo.timer = 0;
+  combo.lastSide = 0;
+  return true;
+}
+// --- End Skill Scoring ---
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { corridorPath, type CorridorPoint } from './corridor';
+import { DIFFICULTIES, DIFFICULTY_PROFILES } from './difficulty';
+import { createSkierState, maxHeading, moveSkier, updateSpeed, type SkierState } from './movement';
+import { checkCollision, obstacleFootprint, OBSTACLES, type Obstacle } from './obstacles';
+import { NO_INPUT, SIM_STEP } from './replay';
+import { generateSegment, rollSegment, SEGMENT_LENGTH } from './segments';
+import { GROUND_Y } from './tricks';
+
+const SEEDS = [1, 7, 42, 1234, 99991];
+const SEGMENTS = 10; // Down to 2000 units, well into each preset's speed-up
+const LOOK_AHEAD = 4; // How far down the corridor the skier aims
+
+// Steers the skier at the corridor a little way ahead of them, the way a
+// player would, rather than replaying the steering the corridor was planned with
+function createSteering(path: CorridorPoint[]) {
+  let below = 1;
+  return (skier: SkierState): number => {
+    const aimZ = skier.z - LOOK_AHEAD;
+    while (below < path.length - 1 && path[below].z > aimZ) below++;
+    const [a, b] = [path[below - 1], path[below]];
+    const aimX = a.x + ((b.x - a.x) * (a.z - aimZ)) / (a.z - b.z || 1);
+    const heading = Math.atan2(aimX - skier.x, LOOK_AHEAD);
+    return Math.max(-1, Math.min(1, heading / maxHeading(skier.speed)));
+  };
+}
+
+describe('generated segments', () => {
+  for (const difficulty of DIFFICULTIES) {
+    const profile = DIFFICULTY_PROFILES[difficulty];
+
+    it(`leave a way through on ${difficulty}`, () => {
+      for (const seed of SEEDS) {
+        const obstacles: Obstacle[] = [];
+        const path: CorridorPoint[] = [];
+        for (let n = -1; n >= -SEGMENTS; n--) {
+          const { obstacles: placed } = generateSegment(seed, n, profile);
+          obstacles.push(...placed.filter(obstacle => !('launch' in OBSTACLES[obstacle.type])));
+          // The same corridor the generator cleared, planned over the segment as rolled
+          const footprints = rollSegment(seed, n, profile).obstacles.flatMap(obstacle => obstacleFootprint(obstacle) ?? []);
+          path.push(...corridorPath(seed, n * SEGMENT_LENGTH, (n + 1) * SEGMENT_LENGTH, profile.speed, footprints));
+        }
+
+        const skier = createSkierState(0, profile.speed);
+        const steering = createSteering(path);
+        const position = new THREE.Vector3();
+        while (skier.z > -SEGMENTS * SEGMENT_LENGTH + LOOK_AHEAD) {
+          moveSkier(skier, { ...NO_INPUT, steer: steering(skier) }, SIM_STEP);
+          updateSpeed(skier, NO_INPUT, SIM_STEP, profile.speed);
+          position.set(skier.x, GROUND_Y, skier.z);
+          const nearby = obstacles.filter(obstacle => Math.abs(obstacle.position.z - skier.z) < 10);
+          const hit = nearby.find(obstacle => checkCollision(position, obstacle));
+          expect(hit, `seed ${seed} at z ${skier.z.toFixed(1)}`).toBeUndefined();
+        }
+      }
+    }, 60_000);
+  }
+});
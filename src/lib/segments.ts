@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { clearCorridor } from './corridor';
+import { sampleCurve, type DifficultyProfile } from './difficulty';
+import type { ObstacleKind } from './gameEvents';
+import { OBSTACLES, obstacleFootprint, type Obstacle } from './obstacles';
+import { rollPickups, type PickupKind } from './pickups';
+import { createRng, deriveSeed, RNG_STREAMS, type Rng } from './random';
+
+// --- Segment Generation ---
+// The endless slope is generated a segment at a time, each from its own
+// streams of the seed, so the layout doesn't depend on generation order.
+
+export const SEGMENT_LENGTH = 200;
+
+export interface Pickup {
+  kind: PickupKind;
+  position: THREE.Vector3;
+  id: string;
+}
+
+export interface SegmentLayout {
+  obstacles: Obstacle[];
+  pickups: Pickup[];
+}
+
+// Pickups are rolled from their own stream, in the cells left empty, so they
+// never change where the obstacles are
+function generateObstaclesForSegment(
+  startZ: number,
+  endZ: number,
+  rng: Rng,
+  profile: DifficultyProfile,
+  pickupRng: Rng
+): SegmentLayout {
+  const obstacles: Obstacle[] = [];
+  const pickups: Pickup[] = [];
+  const obstacleTypes = Object.keys(OBSTACLES) as ObstacleKind[];
+  
+  for (let z = startZ; z < endZ; z += profile.rowSpacing) {
+    // The slope gets busier further down, so everything is sampled by distance skied
+    const distance = Math.max(0, -z);
+    const density = sampleCurve(profile.density, distance);
+    const weights = obstacleTypes.map(type => sampleCurve(profile.weights[type], distance));
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+
+    for (let x = -45; x < 45; x += 8) {
+      if (rng() < density) {
+        const random = rng() * totalWeight;
+        let cumulativeWeight = 0;
+        let selectedType = obstacleTypes[0];
+        
+        for (const [i, type] of obstacleTypes.entries()) {
+          cumulativeWeight += weights[i];
+          if (random < cumulativeWeight) {
+            selectedType = type;
+            break;
+          }
+        }
+
+        obstacles.push({
+          type: selectedType,
+          position: new THREE.Vector3(
+            x + (rng() * 6 - 3),
+            0,
+            z + (rng() * 6 - 3)
+          ),
+          id: `${startZ}:${obstacles.length}`,
+        });
+      } else {
+        for (const { kind, x: pickupX, z: pickupZ } of rollPickups(pickupRng, x, z)) {
+          pickups.push({ kind, position: new THREE.Vector3(pickupX, 0, pickupZ), id: `${startZ}:pickup:${pickups.length}` });
+        }
+      }
+    }
+  }
+  
+  return { obstacles, pickups };
+}
+
+// Segment n as first rolled, slope z from n * SEGMENT_LENGTH up to the next
+// boundary, before its corridor is cleared
+export function rollSegment(seed: number, segmentIndex: number, profile: DifficultyProfile): SegmentLayout {
+  const startZ = segmentIndex * SEGMENT_LENGTH;
+  return generateObstaclesForSegment(
+    startZ,
+    startZ + SEGMENT_LENGTH,
+    createRng(deriveSeed(seed, RNG_STREAMS.terrain, segmentIndex)),
+    profile,
+    createRng(deriveSeed(seed, RNG_STREAMS.pickups, segmentIndex))
+  );
+}
+
+// Segment n as it's skied, with its passable corridor cleared (see corridor.ts)
+export function generateSegment(seed: number, segmentIndex: number, profile: DifficultyProfile): SegmentLayout {
+  const startZ = segmentIndex * SEGMENT_LENGTH;
+  const layout = rollSegment(seed, segmentIndex, profile);
+  const obstacles = clearCorridor(layout.obstacles, obstacleFootprint, seed, startZ, startZ + SEGMENT_LENGTH, profile.speed);
+  return { ...layout, obstacles };
+}
+// --- End Segment Generation ---
@@ -0,0 +1,50 @@
+// --- Player Settings ---
+// Persisted per device. Unknown or malformed stored values fall back to the defaults.
+
+export interface Settings {
+  autoPause: boolean; // Pause when the tab is hidden or the window loses focus
+  showSnow: boolean;
+  sound: boolean;
+  lives: boolean; // Runs start with extra lives (see lives.ts) and go on no leaderboard
+  showCollisionBoxes: boolean; // Debug view, also toggled with the 'c' key
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  autoPause: true,
+  showSnow: true,
+  sound: true,
+  lives: false,
+  showCollisionBoxes: false,
+};
+
+const SETTINGS_KEY = 'vibeskiing:settings';
+
+export function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed: unknown = JSON.parse(stored);
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_SETTINGS;
+
+    const settings = { ...DEFAULT_SETTINGS };
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+      const value = (parsed as Record<string, unknown>)[key];
+      if (typeof value === 'boolean') {
+        settings[key] = value;
+      }
+    }
+    return settings;
+  } catch (err) {
+    console.error('Discarding unreadable settings:', err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Error saving settings:', err);
+  }
+}
+// --- End Player Settings ---
@@ -0,0 +1,148 @@
+import { createRng, deriveSeed, formatSeed, hashString, RNG_STREAMS } from './random';
+import type { CourseFile } from './course';
+
+// --- Slalom ---
+// A timed run through gates: pairs of poles the skier has to pass between, in
+// order, before crossing the finish line. A missed gate adds a time penalty,
+// and missing too many disqualifies the run. Courses are generated from the
+// run seed or loaded from a course file (see course.ts). A course file without
+// a finish line isn't raced at all: it's skied like an endless run.
+
+// Everyone races the same generated course unless they pick another seed
+export const DEFAULT_COURSE_SEED = hashString('vibeskiing-slalom');
+
+export const MISSED_GATE_PENALTY = 5; // Seconds
+export const MAX_MISSED_GATES = 3; // One more and the run is disqualified
+export const GATE_WIDTH = 10; // Gap between a generated gate's poles
+const GATE_COUNT = 20;
+const GATE_SPACING = 70;
+const FIRST_GATE_Z = -100;
+const FINISH_DISTANCE = 80; // From the last gate to the finish line
+const MAX_GATE_OFFSET = 30; // How far a generated gate can sit from the middle of the slope
+
+export interface SlalomGate {
+  x: number; // Middle of the gate
+  z: number;
+  width: number; // Gap between the two poles
+}
+
+export interface SlalomCourse {
+  key: string; // Identifies the course's leaderboard
+  file: CourseFile | null; // The file it was loaded from, saved with replays. Generated courses come back from the seed.
+  name: string;
+  gates: SlalomGate[]; // In the order they're skied, so z decreasing
+  finishZ: number | null; // Null for a course file skied endlessly
+}
+
+export function generateSlalomCourse(seed: number): SlalomCourse {
+  const rng = createRng(deriveSeed(seed, RNG_STREAMS.course));
+  const gates: SlalomGate[] = [];
+  let side = rng() < 0.5 ? -1 : 1;
+  for (let i = 0; i < GATE_COUNT; i++) {
+    // Alternate sides so the course has to be carved rather than skied straight
+    const offset = 8 + rng() * (MAX_GATE_OFFSET - 8);
+    gates.push({ x: side * offset, z: FIRST_GATE_Z - i * GATE_SPACING, width: GATE_WIDTH });
+    side = -side;
+  }
+  return {
+    key: `seed:${formatSeed(seed)}`,
+    file: null,
+    name: `Course ${formatSeed(seed)}`,
+    gates,
+    finishZ: gates[gates.length - 1].z - FINISH_DISTANCE,
+  };
+}
+
+// Where a gate's two poles stand
+export function gatePoles(gate: SlalomGate): [number, number] {
+  return [gate.x - gate.width / 2, gate.x + gate.width / 2];
+}
+
+export function courseFromFile(file: CourseFile): SlalomCourse {
+  return {
+    // Identified by its contents, so an edited copy gets a board of its own
+    key: `file:${hashString(JSON.stringify(file)).toString(16)}`,
+    file,
+    name: file.name,
+    gates: file.gates,
+    finishZ: file.finishZ ?? null,
+  };
+}
+
+// Whether a run on the course is a race to its finish line
+export function isRaced(course: SlalomCourse | null): course is SlalomCourse & { finishZ: number } {
+  return course !== null && course.finishZ !== null;
+}
+
+// --- Run Progress ---
+
+export interface SlalomState {
+  nextGate: number; // Index of the next gate to ski through
+  missed: number;
+  splits: number[]; // Run time at each gate, passed or missed
+}
+
+export type SlalomUpdate = 'passed' | 'missed' | 'finished' | 'disqualified';
+
+export interface SlalomResult {
+  status: 'finished' | 'disqualified' | 'crashed';
+  time: number; // Seconds skied, without penalties
+  missedGates: number;
+  totalTime: number; // With penalties; what the course board ranks
+  splits: number[];
+}
+
+// A run started partway down (a test from the course editor) skips the gates above it
+export function createSlalomState(course: SlalomCourse, startZ = 0): SlalomState {
+  const nextGate = course.gates.findIndex(gate => gate.z < startZ);
+  return { nextGate: nextGate === -1 ? course.gates.length : nextGate, missed: 0, splits: [] };
+}
+
+// Checks the step that moved the skier from previousZ to z (downhill) at
+// lateral position x. Gates are far enough apart that a step crosses at most one.
+export function updateSlalom(
+  state: SlalomState,
+  course: SlalomCourse,
+  previousZ: number,
+  x: number,
+  z: number,
+  time: number
+): SlalomUpdate | null {
+  const gate = course.gates[state.nextGate];
+  if (gate) {
+    if (gate.z < previousZ && gate.z >= z) {
+      const [left, right] = gatePoles(gate);
+      const passed = x > left && x < right;
+      state.nextGate++;
+      state.splits.push(time);
+      if (passed) return 'passed';
+      state.missed++;
+      return state.missed > MAX_MISSED_GATES ? 'disqualified' : 'missed';
+    }
+    return null;
+  }
+  const { finishZ } = course;
+  return finishZ !== null && finishZ < previousZ && finishZ >= z ? 'finished' : null;
+}
+
+export function getSlalomResult(state: SlalomState, status: SlalomResult['status'], time: number): SlalomResult {
+  return {
+    status,
+    time,
+    missedGates: state.missed,
+    totalTime: time + state.missed * MISSED_GATE_PENALTY,
+    splits: [...state.splits],
+  };
+}
+// --- End Run Progress ---
+
+// 83.456 → "1:23.45"
+export function formatRaceTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  const hundredths = Math.floor(rest * 100);
+  const secondsText = String(Math.floor(hundredths / 100)).padStart(minutes > 0 ? 2 : 1, '0');
+  const fraction = String(hundredths % 100).padStart(2, '0');
+  return minutes > 0 ? `${minutes}:${secondsText}.${fraction}` : `${secondsText}.${fraction}`;
+}
+// --- End Slalom ---
@@ -0,0 +1,64 @@
+// --- Sound Effects ---
+// Synthesised with the Web Audio API, so there are no audio files to load.
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  try {
+    context ??= new AudioContext();
+    // Browsers hold audio until the page has been interacted with
+    if (context.state === 'suspended') {
+      void context.resume();
+    }
+    return context;
+  } catch (err) {
+    console.error('Error starting audio:', err);
+    return null;
+  }
+}
+
+// A low growl sliding down in pitch. `pan` places it from -1 (left) to 1 (right).
+export function playRoar(pan = 0) {
+  const ctx = getContext();
+  if (!ctx) return;
+  const now = ctx.currentTime;
+  const duration = 1.1;
+
+  const voice = ctx.createOscillator();
+  voice.type = 'sawtooth';
+  voice.frequency.setValueAtTime(150, now);
+  voice.frequency.exponentialRampToValueAtTime(55, now + duration);
+
+  // Noise gives it the rasp
+  const noiseBuffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * duration), ctx.sampleRate);
+  const samples = noiseBuffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.random() * 2 - 1;
+  }
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer;
+  const noiseGain = ctx.createGain();
+  noiseGain.gain.value = 0.4;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(900, now);
+  filter.frequency.exponentialRampToValueAtTime(300, now + duration);
+
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0.0001, now);
+  envelope.gain.exponentialRampToValueAtTime(0.4, now + 0.08);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, now + duration);
+
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = Math.max(-1, Math.min(1, pan));
+
+  voice.connect(filter);
+  noise.connect(noiseGain).connect(filter);
+  filter.connect(envelope).connect(panner).connect(ctx.destination);
+  voice.start(now);
+  noise.start(now);
+  voice.stop(now + duration);
+  noise.stop(now + duration);
+}
+// --- End Sound Effects ---
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { FORWARD_SPEED } from './movement';
+import { checkCollision, OBSTACLES, type Obstacle } from './obstacles';
+import { NO_INPUT, SIM_STEP } from './replay';
+import { createAirState, GRAVITY, HOP_VELOCITY, launch, updateAir } from './tricks';
+
+const ROCK: Obstacle = { type: 'rock', position: new THREE.Vector3(0, 0, 0), id: 'rock' };
+
+// Skis straight at the rock, taking off `takeoff` units short of it, and
+// reports whether the skier hit it
+function jumpRock(velocity: number, speed: number, takeoff: number): boolean {
+  const air = createAirState();
+  const position = new THREE.Vector3(0, air.y, Math.max(0, takeoff) + 10);
+  while (position.z > ROCK.position.z - 10) {
+    if (position.z <= ROCK.position.z + takeoff) launch(air, velocity);
+    updateAir(air, NO_INPUT, SIM_STEP);
+    position.set(0, air.y, position.z - FORWARD_SPEED * speed * SIM_STEP);
+    if (checkCollision(position, ROCK)) return true;
+  }
+  return false;
+}
+
+// Takes off so the top of the jump comes over the rock
+function clearsRock(velocity: number, speed: number): boolean {
+  const rise = velocity / GRAVITY;
+  return !jumpRock(velocity, speed, FORWARD_SPEED * speed * rise);
+}
+
+describe('jumps', () => {
+  it('hit a rock without taking off', () => {
+    expect(jumpRock(0, 1, -Infinity)).toBe(true);
+  });
+
+  for (const speed of [0.8, 1, 2, 3.5, 4.2]) {
+    it(`clear a rock with a hop at ${speed}x speed`, () => {
+      expect(clearsRock(HOP_VELOCITY, speed)).toBe(true);
+    });
+
+    it(`clear a rock off a bump at ${speed}x speed`, () => {
+      expect(clearsRock(OBSTACLES.bump.launch, speed)).toBe(true);
+    });
+  }
+});
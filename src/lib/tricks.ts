@@ -0,0 +1,82 @@
+import type { InputState } from './replay';
+
+// --- Jumps & Tricks ---
+// Vertical motion for the skier. Bumps and ramps launch them, and jump hops
+// off flat snow. In the air, holding spin turns the skier round and holding
+// grab grabs the skis; both have to be finished before touching down.
+// Airtime doesn't change how the skier moves across the slope, so ghosts
+// re-trace a run's x and z without knowing where it jumped.
+
+export const GROUND_Y = 2; // playerPosition.y when on the snow
+export const GRAVITY = 50;
+export const HOP_VELOCITY = 22; // A jump off flat snow, high enough to clear a rock
+export const SPIN_RATE = 3 * Math.PI; // Radians per second while spin is held
+export const LANDING_TOLERANCE = Math.PI / 4; // How far off facing downhill a landing can be
+export const MIN_GRAB_TIME = 0.2; // Seconds a grab has to be held to count
+
+export interface AirState {
+  y: number;
+  vy: number;
+  airborne: boolean;
+  spin: number; // Radians turned since take-off
+  grabTime: number; // Seconds grab has been held since take-off
+}
+
+export interface Trick {
+  name: string;
+  spins: number; // Full turns
+  grabTime: number;
+}
+
+// What happened on touching down. A clean landing may have no trick in it.
+export type Landing = { clean: true; trick: Trick | null } | { clean: false };
+
+export function createAirState(): AirState {
+  return { y: GROUND_Y, vy: 0, airborne: false, spin: 0, grabTime: 0 };
+}
+
+// Sends the skier up. Returns false if they're already in the air.
+export function launch(air: AirState, velocity: number): boolean {
+  if (air.airborne) return false;
+  air.airborne = true;
+  air.vy = velocity;
+  air.spin = 0;
+  air.grabTime = 0;
+  return true;
+}
+
+export function describeTrick(spins: number, grabTime: number): string {
+  const parts: string[] = [];
+  if (spins > 0) parts.push(String(spins * 360));
+  if (grabTime >= MIN_GRAB_TIME) parts.push('Grab');
+  return parts.join(' ');
+}
+
+// Moves an airborne skier for one step. Returns the landing on the step they
+// touch down, otherwise null.
+export function updateAir(air: AirState, input: InputState, deltaTime: number): Landing | null {
+  if (!air.airborne) return null;
+
+  if (input.spin) air.spin += SPIN_RATE * deltaTime;
+  if (input.grab) air.grabTime += deltaTime;
+  air.vy -= GRAVITY * deltaTime;
+  air.y += air.vy * deltaTime;
+  if (air.y > GROUND_Y) return null;
+
+  const spins = Math.round(air.spin / (2 * Math.PI));
+  const offAngle = Math.abs(air.spin - spins * 2 * Math.PI);
+  const grabTime = air.grabTime;
+  air.y = GROUND_Y;
+  air.vy = 0;
+  air.airborne = false;
+  air.spin = 0;
+  air.grabTime = 0;
+
+  // Touching down sideways, or still holding the skis, ends the run
+  if (offAngle > LANDING_TOLERANCE || input.grab) {
+    return { clean: false };
+  }
+  const name = describeTrick(spins, grabTime);
+  return { clean: true, trick: name ? { name, spins, grabTime } : null };
+}
+// --- End Jumps & Tricks ---
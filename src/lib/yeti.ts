@@ -0,0 +1,305 @@
+import { sampleCurve, type Curve } from './difficulty';
+import { BOUNDARY_X, FORWARD_SPEED } from './movement';
+import type { Rng } from './random';
+import type { HazardBox } from './hazards';
+
+// --- Yetis ---
+// Each yeti follows a behaviour and goes through the same phases:
+//   warning  – still out of sight. It roars, its footprints appear and an
+//              arrow points at it, but it can't catch anyone yet
+//   approach – closing in the way its behaviour does
+//   lunge    – a short burst at the skier once they're in reach
+//   give-up  – the skier got away; it heads off the slope and is gone
+// Yetis are plain data stepped by the fixed-step simulation, so the seed and
+// the inputs reproduce every one of them.
+
+export type YetiBehavior =
+  | 'cross' // Runs straight across the slope ahead
+  | 'chase' // Comes down the slope from behind
+  | 'steer' // Walks out ahead and keeps stepping into the skier's line
+  | 'ambush'; // Waits in the trees at the edge and springs out as the skier comes level
+
+export const YETI_BEHAVIORS: readonly YetiBehavior[] = ['cross', 'chase', 'steer', 'ambush'];
+
+export type YetiPhase = 'warning' | 'approach' | 'lunge' | 'give-up';
+
+export type YetiSide = 'left' | 'right'; // Left is negative x
+
+export interface YetiPrint {
+  x: number;
+  z: number;
+  angle: number; // Heading, around y
+}
+
+export interface Yeti {
+  id: number;
+  behavior: YetiBehavior;
+  side: YetiSide; // The edge of the slope it came from
+  phase: YetiPhase;
+  phaseTime: number; // Seconds in the current phase
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  stride: number; // Distance walked since the last footprint
+  prints: YetiPrint[]; // Oldest first
+}
+
+export interface YetiState {
+  yetis: Yeti[];
+  nextId: number;
+}
+
+export interface YetiSpawn {
+  behavior: YetiBehavior;
+  side: YetiSide;
+  distance?: number; // How far ahead it shows itself; left out, it scales with speed
+}
+
+// Where the skier is, and their speed multiplier
+export interface YetiTarget {
+  x: number;
+  z: number;
+  speed: number;
+}
+
+export type YetiEvent = { type: 'shown' | 'lunge' | 'gave-up' | 'gone'; yeti: Yeti };
+
+const YETI_HITBOX = { width: 4, height: 8, depth: 2 };
+
+const WARNING_TIME = 1.2; // Seconds of warning before a yeti can catch anyone
+const EDGE_X = 60; // Beyond the slope's edge; crossing yetis start and finish here
+const ENTRY_WALK = 20; // How far off the slope a yeti's footprints start
+const PRINT_SPACING = 3;
+const MAX_PRINTS = 24;
+const BASE_SPEED = 55; // Across the slope at 1x speed
+const BASE_SPAWN_DISTANCE = 40; // Ahead of the skier at 1x speed
+const STEER_SPEED = 14; // Slower than the skier can steer, so it can be outrun
+const STEER_CLOSE = 8; // Across the slope from the skier, where a steering yeti slows to STEER_SPEED
+const LUNGE_RANGE = 10; // Distance down the slope at which a steering or chasing yeti lunges
+const LUNGE_SPEED = 30;
+const LUNGE_TIME = 0.5;
+const CHASE_DISTANCE = 50; // Behind the skier
+const CHASE_GAIN = 10; // How much faster than the skier a chasing yeti runs downhill
+const CHASE_TIMEOUT = 8; // Seconds before a chase that isn't closing is given up
+const LURK_X = BOUNDARY_X + 6; // Just out of the skier's reach
+const AMBUSH_REACTION = 1; // Seconds before the skier comes level that an ambush springs
+const AMBUSH_LUNGE_SPEED = 60;
+const AMBUSH_LUNGE_TIME = 1.2;
+const GIVE_UP_SPEED = 15;
+
+// Relative odds of each behaviour by distance: the slope starts with yetis
+// crossing and gets craftier further down
+const BEHAVIOR_WEIGHTS: Record<YetiBehavior, Curve> = {
+  cross: [[0, 1], [3000, 0.4]],
+  chase: [[0, 0], [800, 0.4]],
+  steer: [[0, 0.2], [1500, 0.6]],
+  ambush: [[0, 0.1], [2000, 0.5]],
+};
+
+export function createYetiState(): YetiState {
+  return { yetis: [], nextId: 0 };
+}
+
+function sideSign(side: YetiSide): number {
+  return side === 'left' ? -1 : 1;
+}
+
+// A velocity that moves `from` towards `to` this step, no faster than maxSpeed
+function towards(from: number, to: number, maxSpeed: number, deltaTime: number): number {
+  return Math.max(-maxSpeed, Math.min(maxSpeed, (to - from) / deltaTime));
+}
+
+export function chooseBehavior(roll: number, distance: number): YetiBehavior {
+  const weights = YETI_BEHAVIORS.map(behavior => sampleCurve(BEHAVIOR_WEIGHTS[behavior], distance));
+  let threshold = roll * weights.reduce((total, weight) => total + weight, 0);
+  for (const [i, behavior] of YETI_BEHAVIORS.entries()) {
+    threshold -= weights[i];
+    if (threshold < 0) return behavior;
+  }
+  return YETI_BEHAVIORS[0];
+}
+
+// Whether a random yeti turns up this step, and what kind
+export function rollYetiSpawn(rng: Rng, chancePerSecond: number, deltaTime: number, distance: number): YetiSpawn | null {
+  if (rng() >= chancePerSecond * deltaTime) return null;
+  const behavior = chooseBehavior(rng(), distance);
+  return { behavior, side: rng() < 0.5 ? 'left' : 'right' };
+}
+
+// Starts a yeti's warning. Yetis that appear ahead are placed far enough down
+// that they show themselves `distance` ahead once the warning is over.
+export function spawnYeti(state: YetiState, spawn: YetiSpawn, skier: YetiTarget): Yeti {
+  const sign = sideSign(spawn.side);
+  const forward = FORWARD_SPEED * skier.speed;
+  const distance = spawn.distance ?? BASE_SPAWN_DISTANCE * skier.speed * (spawn.behavior === 'ambush' ? 1.5 : 1);
+  const yeti: Yeti = {
+    id: state.nextId++,
+    behavior: spawn.behavior,
+    side: spawn.side,
+    phase: 'warning',
+    phaseTime: 0,
+    x: sign * ((spawn.behavior === 'ambush' ? LURK_X : EDGE_X) + ENTRY_WALK),
+    z: skier.z - distance - forward * WARNING_TIME,
+    vx: 0,
+    vz: 0,
+    stride: 0,
+    prints: [],
+  };
+  if (spawn.behavior === 'chase') {
+    yeti.x = skier.x + sign * 8;
+    yeti.z = skier.z + CHASE_DISTANCE;
+  }
+  state.yetis.push(yeti);
+  return yeti;
+}
+
+export function isDangerous(yeti: Yeti): boolean {
+  return yeti.phase === 'approach' || yeti.phase === 'lunge';
+}
+
+export function yetiBox(yeti: Yeti): HazardBox {
+  return { x: yeti.x, y: 1, z: yeti.z, ...YETI_HITBOX };
+}
+
+function setPhase(yeti: Yeti, phase: YetiPhase) {
+  yeti.phase = phase;
+  yeti.phaseTime = 0;
+}
+
+// Sets the yeti's velocity for this step and moves it on to its next phase.
+// Returns what changed, if anything.
+function think(yeti: Yeti, skier: YetiTarget, deltaTime: number): YetiEvent['type'] | null {
+  const sign = sideSign(yeti.side);
+  const forward = FORWARD_SPEED * skier.speed;
+  const gap = skier.z - yeti.z; // Positive while the yeti is still ahead of the skier
+  const passed = gap < -3;
+
+  if (yeti.phase === 'warning') {
+    if (yeti.behavior === 'chase') {
+      // Keeps pace behind the skier, out of view
+      yeti.vx = towards(yeti.x, skier.x + sign * 8, forward, deltaTime);
+      yeti.vz = towards(yeti.z, skier.z + CHASE_DISTANCE, forward * 2, deltaTime);
+    } else {
+      // Walks in from the trees to the edge of the slope
+      const edge = sign * (yeti.behavior === 'ambush' ? LURK_X : EDGE_X);
+      yeti.vx = towards(yeti.x, edge, ENTRY_WALK / WARNING_TIME, deltaTime);
+      yeti.vz = 0;
+    }
+    if (yeti.phaseTime >= WARNING_TIME) {
+      setPhase(yeti, 'approach');
+      return 'shown';
+    }
+    return null;
+  }
+
+  if (yeti.phase === 'give-up') {
+    // Back off the slope the nearest way, falling behind if it was chasing
+    yeti.vx = (yeti.x < 0 ? -1 : 1) * GIVE_UP_SPEED;
+    yeti.vz = yeti.behavior === 'chase' ? -forward * 0.5 : 0;
+    const offSlope = Math.abs(yeti.x) > EDGE_X + ENTRY_WALK;
+    return offSlope || yeti.z - skier.z > 100 ? 'gone' : null;
+  }
+
+  switch (yeti.behavior) {
+    case 'cross': {
+      yeti.vx = -sign * BASE_SPEED * skier.speed;
+      yeti.vz = 0;
+      if (-sign * yeti.x > EDGE_X) {
+        setPhase(yeti, 'give-up');
+        return 'gave-up';
+      }
+      return null;
+    }
+    case 'chase': {
+      const lunging = yeti.phase === 'lunge';
+      yeti.vx = towards(yeti.x, skier.x, lunging ? LUNGE_SPEED : STEER_SPEED, deltaTime);
+      yeti.vz = -(forward + CHASE_GAIN + (lunging ? LUNGE_SPEED : 0));
+      if (!lunging && -gap < LUNGE_RANGE) {
+        setPhase(yeti, 'lunge');
+        return 'lunge';
+      }
+      if ((lunging && yeti.phaseTime >= LUNGE_TIME) || (!lunging && yeti.phaseTime >= CHASE_TIMEOUT)) {
+        setPhase(yeti, 'give-up');
+        return 'gave-up';
+      }
+      return null;
+    }
+    case 'steer':
+    case 'ambush': {
+      const ambush = yeti.behavior === 'ambush';
+      yeti.vz = 0;
+      if (yeti.phase === 'lunge') {
+        yeti.vx = towards(yeti.x, skier.x, ambush ? AMBUSH_LUNGE_SPEED : LUNGE_SPEED, deltaTime);
+        if (passed || yeti.phaseTime >= (ambush ? AMBUSH_LUNGE_TIME : LUNGE_TIME)) {
+          setPhase(yeti, 'give-up');
+          return 'gave-up';
+        }
+        return null;
+      }
+      // An ambush keeps still until the skier is nearly level. A steering yeti
+      // runs out into their line, then keeps stepping back into it.
+      const close = Math.abs(skier.x - yeti.x) < STEER_CLOSE;
+      yeti.vx = ambush ? 0 : towards(yeti.x, skier.x, close ? STEER_SPEED : BASE_SPEED * skier.speed, deltaTime);
+      if (passed) {
+        setPhase(yeti, 'give-up');
+        return 'gave-up';
+      }
+      if (gap < (ambush ? forward * AMBUSH_REACTION + 4 : LUNGE_RANGE)) {
+        setPhase(yeti, 'lunge');
+        return 'lunge';
+      }
+      return null;
+    }
+  }
+}
+
+// Footprints every PRINT_SPACING along its path, alternating feet
+function leavePrints(yeti: Yeti, dx: number, dz: number) {
+  const step = Math.hypot(dx, dz);
+  if (step === 0) return;
+  yeti.stride += step;
+  if (yeti.stride < PRINT_SPACING) return;
+  yeti.stride = 0;
+  const foot = yeti.prints.length % 2 === 0 ? 0.6 : -0.6;
+  yeti.prints.push({ x: yeti.x + (dz / step) * foot, z: yeti.z - (dx / step) * foot, angle: Math.atan2(dx, dz) });
+  if (yeti.prints.length > MAX_PRINTS) yeti.prints.shift();
+}
+
+// Moves every yeti one step. Yetis that are gone are removed.
+export function updateYetis(state: YetiState, skier: YetiTarget, deltaTime: number): YetiEvent[] {
+  const events: YetiEvent[] = [];
+  for (const yeti of state.yetis) {
+    yeti.phaseTime += deltaTime;
+    const change = think(yeti, skier, deltaTime);
+    if (change) events.push({ type: change, yeti });
+    const dx = yeti.vx * deltaTime;
+    const dz = yeti.vz * deltaTime;
+    yeti.x += dx;
+    yeti.z += dz;
+    leavePrints(yeti, dx, dz);
+  }
+  state.yetis = state.yetis.filter(yeti => !events.some(event => event.type === 'gone' && event.yeti === yeti));
+  return events;
+}
+
+// Sends every yeti off the slope the way one that gave up goes
+export function scareYetis(state: YetiState) {
+  for (const yeti of state.yetis) {
+    if (yeti.phase !== 'give-up') {
+      setPhase(yeti, 'give-up');
+    }
+  }
+}
+
+// Which screen edge to point an arrow at, or null when the yeti is in view.
+// The camera sits behind the skier looking down the slope.
+export function yetiPointer(yeti: Yeti, skier: YetiTarget): 'left' | 'right' | 'behind' | null {
+  if (yeti.phase === 'give-up') return null;
+  if (yeti.z > skier.z + 2) return 'behind';
+  const ahead = skier.z - yeti.z;
+  const offScreen = yeti.phase === 'warning' || Math.abs(yeti.x - skier.x) > 12 + ahead * 0.7;
+  if (!offScreen) return null;
+  return yeti.x < skier.x ? 'left' : 'right';
+}
+// --- End Yetis ---
@@ -0,0 +1,11 @@
+/*
+  # Record the slope seed with each leaderboard entry
+
+  1. Changes
+    - `leaderboard`
+      - `seed` (bigint, nullable) – the 32-bit seed the run was generated from.
+        Existing rows predate seeded runs and stay null.
+*/
+
+ALTER TABLE leaderboard
+  ADD COLUMN IF NOT EXISTS seed bigint CHECK (seed IS NULL OR (seed >= 0 AND seed <= 4294967295));
@@ -0,0 +1,55 @@
+/*
+  # Daily Challenge leaderboard
+
+  1. New Tables
+    - `daily_leaderboard`
+      - `id` (uuid, primary key)
+      - `day` (date, the UTC calendar day of the challenge)
+      - `name` (text, player's initials)
+      - `score` (integer)
+      - `time` (integer, seconds survived)
+      - `seed` (bigint, the day's slope seed)
+      - `created_at` (timestamp with timezone)
+
+  2. New Views
+    - `daily_winners` – the top score for every day
+
+  3. Security
+    - Enable RLS on `daily_leaderboard`
+    - Anyone can read daily entries
+    - Anyone can insert, but only for today or yesterday (UTC) so a run that
+      straddles midnight still counts
+*/
+
+CREATE TABLE IF NOT EXISTS daily_leaderboard (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  day date NOT NULL,
+  name text NOT NULL CHECK (char_length(name) <= 3),
+  score integer NOT NULL,
+  time integer NOT NULL,
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE daily_leaderboard ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read daily leaderboard"
+  ON daily_leaderboard
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can insert scores for the current day"
+  ON daily_leaderboard
+  FOR INSERT
+  TO public
+  WITH CHECK (day BETWEEN (now() AT TIME ZONE 'utc')::date - 1 AND (now() AT TIME ZONE 'utc')::date);
+
+CREATE INDEX daily_leaderboard_day_score_idx ON daily_leaderboard (day, score DESC);
+
+CREATE VIEW daily_winners
+  WITH (security_invoker = true)
+AS
+  SELECT DISTINCT ON (day) id, day, name, score, time, seed, created_at
+  FROM daily_leaderboard
+  ORDER BY day DESC, score DESC, created_at ASC;
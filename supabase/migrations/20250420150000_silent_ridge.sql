@@ -0,0 +1,28 @@
+/*
+  # Store run replays with leaderboard entries
+
+  1. Changes
+    - `leaderboard`, `daily_leaderboard`
+      - `replay` (jsonb, nullable) – seed plus the recorded input log of the run
+      - `has_replay` (boolean, generated) – lets list queries skip the replay payload
+
+  2. Views
+    - `daily_winners` is recreated to expose `has_replay`
+*/
+
+ALTER TABLE leaderboard
+  ADD COLUMN IF NOT EXISTS replay jsonb,
+  ADD COLUMN IF NOT EXISTS has_replay boolean GENERATED ALWAYS AS (replay IS NOT NULL) STORED;
+
+ALTER TABLE daily_leaderboard
+  ADD COLUMN IF NOT EXISTS replay jsonb,
+  ADD COLUMN IF NOT EXISTS has_replay boolean GENERATED ALWAYS AS (replay IS NOT NULL) STORED;
+
+DROP VIEW IF EXISTS daily_winners;
+
+CREATE VIEW daily_winners
+  WITH (security_invoker = true)
+AS
+  SELECT DISTINCT ON (day) id, day, name, score, time, seed, has_replay, created_at
+  FROM daily_leaderboard
+  ORDER BY day DESC, score DESC, created_at ASC;
@@ -0,0 +1,181 @@
+/*
+  # Validate scores on the server
+
+  Scores used to be inserted straight into the leaderboard tables, so anyone
+  with the anon key could post any value. All submissions now go through
+  `submit_score` / `submit_daily_score`, which check the claim before writing.
+
+  1. New Tables
+    - `score_submissions` – one row per accepted submission, used for rate
+      limiting (no policies: only the functions below can touch it)
+
+  2. New Functions
+    - `expected_score_for_time(seconds)` – the score a run of that length
+      produces. Mirrors GameScene: score grows at 10 * speed per second, speed
+      starts at 1, ramps by 0.01/s and caps at 3 (see src/lib/movement.ts)
+    - `validate_score_submission(...)` – shared checks, raises on failure
+    - `submit_score(...)`, `submit_daily_score(...)` – the only way to insert
+
+  3. Security
+    - Drop the "anyone can insert" policies on `leaderboard` and
+      `daily_leaderboard`; the submit functions are SECURITY DEFINER
+*/
+
+DROP POLICY IF EXISTS "Anyone can insert scores" ON leaderboard;
+DROP POLICY IF EXISTS "Anyone can insert scores for the current day" ON daily_leaderboard;
+
+CREATE TABLE IF NOT EXISTS score_submissions (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  client_id uuid NOT NULL,
+  ip text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE score_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX score_submissions_client_idx ON score_submissions (client_id, created_at DESC);
+CREATE INDEX score_submissions_ip_idx ON score_submissions (ip, created_at DESC);
+
+-- Speed reaches its 3x cap after 200 seconds
+CREATE OR REPLACE FUNCTION expected_score_for_time(p_seconds numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_seconds <= 200 THEN 10 * (p_seconds + 0.005 * p_seconds * p_seconds)
+    ELSE 4000 + 30 * (p_seconds - 200)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_score_submission(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Rate limit before doing anything else. A failed check rolls the whole call
+  -- back, so only accepted submissions are counted
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_name IS NULL OR p_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time IS NULL OR p_time < 0 OR p_time > 86400 THEN
+    RAISE EXCEPTION 'Run time % is out of range', p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Both values are floored by the client, so the real run lasted between
+  -- p_time and p_time + 1 seconds
+  IF p_score IS NULL
+    OR p_score < floor(expected_score_for_time(p_time)) - 1
+    OR p_score > ceil(expected_score_for_time(p_time + 1)) THEN
+    RAISE EXCEPTION 'Score % is not possible in % seconds', p_score, p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  PERFORM validate_score_submission(p_name, p_score, p_time, p_seed, p_replay, p_client_id);
+
+  INSERT INTO leaderboard (name, score, time, seed, replay)
+  VALUES (p_name, p_score, p_time, p_seed, p_replay)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_daily_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_day date,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_today date := (now() AT TIME ZONE 'utc')::date;
+BEGIN
+  PERFORM validate_score_submission(p_name, p_score, p_time, p_seed, p_replay, p_client_id);
+
+  -- Allow yesterday too, so a run that straddles midnight still counts
+  IF p_day IS NULL OR p_day NOT BETWEEN v_today - 1 AND v_today THEN
+    RAISE EXCEPTION 'The challenge for % is closed', p_day USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO daily_leaderboard (name, score, time, seed, day, replay)
+  VALUES (p_name, p_score, p_time, p_seed, p_day, p_replay)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION validate_score_submission(text, integer, integer, bigint, jsonb, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_score(text, integer, integer, bigint, jsonb, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_daily_score(text, integer, integer, bigint, date, jsonb, uuid) TO anon, authenticated;
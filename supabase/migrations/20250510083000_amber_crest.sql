@@ -0,0 +1,78 @@
+/*
+  # Rank leaderboards in the database
+
+  The client used to fetch every score after each insert and delete everything
+  below 10th place. There is no DELETE policy, so under RLS those deletes
+  silently failed, and two players submitting at once could race each other.
+  Now every score is kept for stats and the top 10 is computed on read.
+
+  1. New Views
+    - `leaderboard_top` – the all-time top 10 with its rank
+    - `daily_leaderboard_top` – the top 10 of every day with its rank; filter
+      on `day` (the filter is pushed below the window, so it stays cheap)
+    - `daily_winners` is rebuilt on top of `daily_leaderboard_top`
+
+  2. New Functions
+    - `leaderboard_qualifies(score)` / `daily_leaderboard_qualifies(score, day)`
+      – whether a score would make the top 10, answered in one statement
+
+  3. Indexes
+    - Tie-breaking on `created_at` is part of the sort, so include it in the
+      score indexes
+*/
+
+DROP INDEX IF EXISTS leaderboard_score_idx;
+CREATE INDEX leaderboard_score_idx ON leaderboard (score DESC, created_at ASC);
+
+DROP INDEX IF EXISTS daily_leaderboard_day_score_idx;
+CREATE INDEX daily_leaderboard_day_score_idx ON daily_leaderboard (day, score DESC, created_at ASC);
+
+CREATE VIEW leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT
+    id, name, score, time, seed, has_replay, created_at,
+    row_number() OVER (ORDER BY score DESC, created_at ASC) AS rank
+  FROM leaderboard
+  ORDER BY score DESC, created_at ASC
+  LIMIT 10;
+
+CREATE VIEW daily_leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT *
+  FROM (
+    SELECT
+      id, day, name, score, time, seed, has_replay, created_at,
+      row_number() OVER (PARTITION BY day ORDER BY score DESC, created_at ASC) AS rank
+    FROM daily_leaderboard
+  ) ranked
+  WHERE rank <= 10;
+
+DROP VIEW IF EXISTS daily_winners;
+
+CREATE VIEW daily_winners
+  WITH (security_invoker = true)
+AS
+  SELECT * FROM daily_leaderboard_top WHERE rank = 1;
+
+CREATE OR REPLACE FUNCTION leaderboard_qualifies(p_score integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*) < 10 OR p_score > min(score)
+  FROM (SELECT score FROM leaderboard ORDER BY score DESC LIMIT 10) top;
+$$;
+
+CREATE OR REPLACE FUNCTION daily_leaderboard_qualifies(p_score integer, p_day date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*) < 10 OR p_score > min(score)
+  FROM (SELECT score FROM daily_leaderboard WHERE day = p_day ORDER BY score DESC LIMIT 10) top;
+$$;
+
+GRANT EXECUTE ON FUNCTION leaderboard_qualifies(integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION daily_leaderboard_qualifies(integer, date) TO anon, authenticated;
@@ -0,0 +1,307 @@
+/*
+  # Player accounts and profiles
+
+  Scores were only tied to a 3-character name, so anyone could post as "AAA"
+  and nobody could follow their own history. Players can now sign in with
+  Supabase Auth (optional: guests keep entering initials) and their scores are
+  linked to their account.
+
+  1. New Tables
+    - `profiles` – one row per account, created on sign-up
+      - `id` (uuid, primary key, references auth.users)
+      - `display_name` (text)
+      - `initials` (text, shown on the boards in place of typed initials)
+    - `guest_scores` – which browser (`client_id`) submitted each guest score,
+      so the scores can be claimed after signing in. No policies: client ids
+      must stay private, or anyone could claim anyone's scores
+
+  2. Changes
+    - `leaderboard`, `daily_leaderboard`
+      - `user_id` (uuid, nullable) – the account that set the score
+    - `submit_score` / `submit_daily_score` link signed-in submissions to the
+      account and post them under the profile's initials
+    - `leaderboard_top`, `daily_leaderboard_top` and `daily_winners` expose
+      `user_id`, so the client can highlight a player's own entries
+
+  3. New Functions
+    - `claim_guest_scores(client_id)` – moves this browser's guest scores to
+      the signed-in account, returns how many were claimed
+    - `leaderboard_standing()` / `daily_leaderboard_standing(day)` – the
+      signed-in player's best entry and its rank among all scores
+
+  4. Security
+    - Anyone can read profiles; players can only update their own
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  display_name text NOT NULL CHECK (char_length(display_name) BETWEEN 1 AND 24),
+  initials text NOT NULL CHECK (initials ~ '^[A-Z0-9]{1,3}$'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read profiles"
+  ON profiles
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Players can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+CREATE OR REPLACE FUNCTION touch_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_touch
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION touch_profile();
+
+-- Every new account gets a profile, named after the start of its email address
+-- until the player picks something else
+CREATE OR REPLACE FUNCTION create_profile_for_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text := left(coalesce(
+    nullif(NEW.raw_user_meta_data ->> 'display_name', ''),
+    nullif(split_part(NEW.email, '@', 1), ''),
+    'Skier'
+  ), 24);
+BEGIN
+  INSERT INTO profiles (id, display_name, initials)
+  VALUES (
+    NEW.id,
+    v_name,
+    coalesce(nullif(left(regexp_replace(upper(v_name), '[^A-Z0-9]', '', 'g'), 3), ''), 'SKI')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION create_profile_for_user();
+
+ALTER TABLE leaderboard
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL;
+
+ALTER TABLE daily_leaderboard
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS leaderboard_user_idx ON leaderboard (user_id, score DESC);
+CREATE INDEX IF NOT EXISTS daily_leaderboard_user_idx ON daily_leaderboard (user_id, day, score DESC);
+
+CREATE TABLE IF NOT EXISTS guest_scores (
+  score_id uuid PRIMARY KEY,
+  board text NOT NULL CHECK (board IN ('all-time', 'daily')),
+  client_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE guest_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX guest_scores_client_idx ON guest_scores (client_id);
+
+-- Same signatures as before; validation is unchanged. A signed-in player's
+-- score is posted under their profile's initials whatever name was sent.
+CREATE OR REPLACE FUNCTION submit_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+BEGIN
+  PERFORM validate_score_submission(v_name, p_score, p_time, p_seed, p_replay, p_client_id);
+
+  INSERT INTO leaderboard (name, score, time, seed, replay, user_id)
+  VALUES (v_name, p_score, p_time, p_seed, p_replay, v_user)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'all-time', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_daily_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_day date,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_today date := (now() AT TIME ZONE 'utc')::date;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+BEGIN
+  PERFORM validate_score_submission(v_name, p_score, p_time, p_seed, p_replay, p_client_id);
+
+  -- Allow yesterday too, so a run that straddles midnight still counts
+  IF p_day IS NULL OR p_day NOT BETWEEN v_today - 1 AND v_today THEN
+    RAISE EXCEPTION 'The challenge for % is closed', p_day USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO daily_leaderboard (name, score, time, seed, day, replay, user_id)
+  VALUES (v_name, p_score, p_time, p_seed, p_day, p_replay, v_user)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'daily', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Claimed scores take on the account's initials, so the boards stay consistent
+CREATE OR REPLACE FUNCTION claim_guest_scores(p_client_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_initials text;
+  v_claimed integer;
+  v_claimed_daily integer;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim scores' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT initials INTO v_initials FROM profiles WHERE id = v_user;
+
+  UPDATE leaderboard l
+  SET user_id = v_user, name = coalesce(v_initials, l.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'all-time' AND g.score_id = l.id AND l.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  UPDATE daily_leaderboard d
+  SET user_id = v_user, name = coalesce(v_initials, d.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'daily' AND g.score_id = d.id AND d.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed_daily = ROW_COUNT;
+
+  DELETE FROM guest_scores WHERE client_id = p_client_id;
+
+  RETURN v_claimed + v_claimed_daily;
+END;
+$$;
+
+-- Appending columns keeps CREATE OR REPLACE possible
+CREATE OR REPLACE VIEW leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT
+    id, name, score, time, seed, has_replay, created_at,
+    row_number() OVER (ORDER BY score DESC, created_at ASC) AS rank,
+    user_id
+  FROM leaderboard
+  ORDER BY score DESC, created_at ASC
+  LIMIT 10;
+
+CREATE OR REPLACE VIEW daily_leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT *
+  FROM (
+    SELECT
+      id, day, name, score, time, seed, has_replay, created_at,
+      row_number() OVER (PARTITION BY day ORDER BY score DESC, created_at ASC) AS rank,
+      user_id
+    FROM daily_leaderboard
+  ) ranked
+  WHERE rank <= 10;
+
+CREATE OR REPLACE VIEW daily_winners
+  WITH (security_invoker = true)
+AS
+  SELECT * FROM daily_leaderboard_top WHERE rank = 1;
+
+-- Rank counts every score, with ties going to whoever got there first, the
+-- same order the *_top views use. Returns no row for guests or players
+-- without a score.
+CREATE OR REPLACE FUNCTION leaderboard_standing()
+RETURNS TABLE (id uuid, score integer, time integer, created_at timestamptz, rank bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    best.id, best.score, best.time, best.created_at,
+    (
+      SELECT count(*) + 1 FROM leaderboard l
+      WHERE l.score > best.score OR (l.score = best.score AND l.created_at < best.created_at)
+    ) AS rank
+  FROM (
+    SELECT * FROM leaderboard
+    WHERE user_id = auth.uid()
+    ORDER BY score DESC, created_at ASC
+    LIMIT 1
+  ) best;
+$$;
+
+CREATE OR REPLACE FUNCTION daily_leaderboard_standing(p_day date)
+RETURNS TABLE (id uuid, score integer, time integer, created_at timestamptz, rank bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    best.id, best.score, best.time, best.created_at,
+    (
+      SELECT count(*) + 1 FROM daily_leaderboard d
+      WHERE d.day = p_day
+        AND (d.score > best.score OR (d.score = best.score AND d.created_at < best.created_at))
+    ) AS rank
+  FROM (
+    SELECT * FROM daily_leaderboard
+    WHERE user_id = auth.uid() AND day = p_day
+    ORDER BY score DESC, created_at ASC
+    LIMIT 1
+  ) best;
+$$;
+
+REVOKE ALL ON FUNCTION create_profile_for_user() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_guest_scores(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION leaderboard_standing() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION daily_leaderboard_standing(date) TO anon, authenticated;
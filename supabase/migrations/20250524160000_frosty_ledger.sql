@@ -0,0 +1,139 @@
+/*
+  # Log every run
+
+  Only top-10 scores reached the server; every other run was forgotten. Runs
+  are now logged for the stats screen, whether or not they made a board.
+
+  1. New Tables
+    - `run_logs`
+      - `id` (uuid, primary key, generated by the client so uploads can be retried)
+      - `client_id` (uuid) – the browser that played the run
+      - `user_id` (uuid, nullable) – the signed-in account, if any
+      - `mode`, `seed`, `day` – which slope the run was on
+      - `score`, `time` (seconds), `distance` (metres), `top_speed` (multiplier)
+      - `crash_cause` (text) – the obstacle type or 'yeti' that ended the run
+      - `ended_at` (timestamptz)
+
+  2. New Functions
+    - `log_run(...)` – the only way to insert; links the run to the session's
+      account and ignores a log it has already stored
+    - `claim_guest_scores(client_id)` now claims the browser's run logs too
+
+  3. Security
+    - Signed-in players can read their own logs; guests' logs are write-only
+*/
+
+CREATE TABLE IF NOT EXISTS run_logs (
+  id uuid PRIMARY KEY,
+  client_id uuid NOT NULL,
+  user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE,
+  mode text NOT NULL CHECK (mode IN ('endless', 'daily')),
+  seed bigint NOT NULL CHECK (seed BETWEEN 0 AND 4294967295),
+  day date,
+  score integer NOT NULL CHECK (score >= 0),
+  time real NOT NULL CHECK (time BETWEEN 0 AND 86400),
+  distance real NOT NULL CHECK (distance >= 0),
+  top_speed real NOT NULL CHECK (top_speed >= 0),
+  crash_cause text CHECK (crash_cause IN ('tree', 'rock', 'bump', 'pole', 'yeti')),
+  ended_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE run_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX run_logs_user_idx ON run_logs (user_id, ended_at DESC);
+CREATE INDEX run_logs_client_idx ON run_logs (client_id, created_at DESC);
+
+CREATE POLICY "Players can read their own run logs"
+  ON run_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION log_run(
+  p_id uuid,
+  p_mode text,
+  p_seed bigint,
+  p_day date,
+  p_score integer,
+  p_time real,
+  p_distance real,
+  p_top_speed real,
+  p_crash_cause text,
+  p_ended_at timestamptz,
+  p_client_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recent integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Generous, since every run is logged, but enough to stop a flood
+  SELECT count(*) INTO v_recent
+  FROM run_logs
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  IF v_recent >= 300 THEN
+    RAISE EXCEPTION 'Too many runs logged, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Column checks reject anything out of range
+  INSERT INTO run_logs (
+    id, client_id, user_id, mode, seed, day, score, time, distance, top_speed, crash_cause, ended_at
+  )
+  VALUES (
+    p_id, p_client_id, auth.uid(), p_mode, p_seed, p_day, p_score, p_time, p_distance, p_top_speed,
+    p_crash_cause, least(p_ended_at, now())
+  )
+  ON CONFLICT (id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_guest_scores(p_client_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_initials text;
+  v_claimed integer;
+  v_claimed_daily integer;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim scores' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT initials INTO v_initials FROM profiles WHERE id = v_user;
+
+  UPDATE leaderboard l
+  SET user_id = v_user, name = coalesce(v_initials, l.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'all-time' AND g.score_id = l.id AND l.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  UPDATE daily_leaderboard d
+  SET user_id = v_user, name = coalesce(v_initials, d.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'daily' AND g.score_id = d.id AND d.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed_daily = ROW_COUNT;
+
+  DELETE FROM guest_scores WHERE client_id = p_client_id;
+
+  -- Run logs carry their client id, so the guest history comes along
+  UPDATE run_logs SET user_id = v_user WHERE client_id = p_client_id AND user_id IS NULL;
+
+  RETURN v_claimed + v_claimed_daily;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION log_run(uuid, text, bigint, date, integer, real, real, real, text, timestamptz, uuid)
+  TO anon, authenticated;
@@ -0,0 +1,39 @@
+/*
+  # Achievements
+
+  Achievements are unlocked by the client from what happens during a run.
+  Signed-in players keep them on their account so they follow them between
+  devices; guests keep them on their device only.
+
+  1. New Tables
+    - `player_achievements`
+      - `user_id` (uuid, references auth.users)
+      - `achievement_id` (text) – an id from ACHIEVEMENTS in src/lib/achievements.ts
+      - `unlocked_at` (timestamptz)
+      - primary key (`user_id`, `achievement_id`), so each unlocks once
+
+  2. Security
+    - Players can read and add their own achievements. They're bragging
+      rights, not scores, so they aren't validated beyond that
+*/
+
+CREATE TABLE IF NOT EXISTS player_achievements (
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  achievement_id text NOT NULL CHECK (achievement_id ~ '^[a-z0-9-]{1,40}$'),
+  unlocked_at timestamptz NOT NULL DEFAULT now() CHECK (unlocked_at <= now() + interval '5 minutes'),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+ALTER TABLE player_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can read their own achievements"
+  ON player_achievements
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Players can add their own achievements"
+  ON player_achievements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,98 @@
+/*
+  # Allow skill bonuses in submitted scores
+
+  Near misses, combos and threading gaps (src/lib/scoring.ts) add to the
+  time × speed score, so a valid score can now be well above
+  `expected_score_for_time`. The lower bound is unchanged.
+
+  1. New Functions
+    - `max_skill_bonus_for_time(seconds)` – a generous ceiling on the bonus a
+      run of that length can earn. It's a sanity bound, not an exact check:
+      every bonus comes from the seeded simulation, so a submitted replay
+      reproduces it
+
+  2. Changed Functions
+    - `validate_score_submission(...)` – the upper bound on the score adds
+      `max_skill_bonus_for_time`
+*/
+
+-- A maxed-out combo threading a gap is worth 625 points, and at top speed the
+-- skier passes fewer than two obstacles a second
+CREATE OR REPLACE FUNCTION max_skill_bonus_for_time(p_seconds numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 1250 * p_seconds;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_score_submission(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Rate limit before doing anything else. A failed check rolls the whole call
+  -- back, so only accepted submissions are counted
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_name IS NULL OR p_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time IS NULL OR p_time < 0 OR p_time > 86400 THEN
+    RAISE EXCEPTION 'Run time % is out of range', p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Both values are floored by the client, so the real run lasted between
+  -- p_time and p_time + 1 seconds. Skill bonuses only ever add to the base score
+  IF p_score IS NULL
+    OR p_score < floor(expected_score_for_time(p_time)) - 1
+    OR p_score > ceil(expected_score_for_time(p_time + 1) + max_skill_bonus_for_time(p_time + 1)) THEN
+    RAISE EXCEPTION 'Score % is not possible in % seconds', p_score, p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION validate_score_submission(text, integer, integer, bigint, jsonb, uuid) FROM public, anon, authenticated;
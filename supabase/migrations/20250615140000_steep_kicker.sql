@@ -0,0 +1,26 @@
+/*
+  # Jumps and tricks
+
+  Bumps and the new ramps launch the skier instead of ending the run, and
+  tricks landed in the air score on top of near misses.
+
+  1. Changed Tables
+    - `run_logs.crash_cause` also accepts 'ramp' and 'landing' (a trick landed
+      badly). 'bump' stays valid for runs logged before bumps launched
+
+  2. Changed Functions
+    - `max_skill_bonus_for_time(seconds)` – doubled, to leave room for trick
+      points chained into a maxed-out combo
+*/
+
+ALTER TABLE run_logs DROP CONSTRAINT IF EXISTS run_logs_crash_cause_check;
+ALTER TABLE run_logs ADD CONSTRAINT run_logs_crash_cause_check
+  CHECK (crash_cause IN ('tree', 'rock', 'bump', 'pole', 'ramp', 'yeti', 'landing'));
+
+CREATE OR REPLACE FUNCTION max_skill_bonus_for_time(p_seconds numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2500 * p_seconds;
+$$;
@@ -0,0 +1,240 @@
+/*
+  # Slalom times
+
+  Slalom runs race through a course of gates to a finish line, so they're
+  ranked by time (lowest first) on a board per course, apart from the endless
+  scores.
+
+  1. New Tables
+    - `slalom_times`
+      - `id` (uuid, primary key)
+      - `course` (text) – the course key: `seed:XXXXXXXX` for a generated
+        course, `file:<hash>` for one loaded from a file
+      - `name` (text)
+      - `time_ms` (integer) – finish time including missed-gate penalties
+      - `time` (integer, generated) – whole seconds, like the other boards
+      - `seed`, `replay`, `has_replay`, `user_id`, `created_at` – as on
+        `leaderboard`
+
+  2. New Views
+    - `slalom_times_top` – the 10 fastest times per course, with `time_ms`
+      exposed as `score` so it reads like the other *_top views
+
+  3. New Functions
+    - `slalom_times_qualifies(time_ms, course)`
+    - `submit_slalom_time(...)` – the only way to insert, rate limited
+      together with score submissions
+    - `slalom_times_standing(course)` – the signed-in player's best time on a
+      course and its rank
+
+  4. Changed Tables
+    - `guest_scores.board` also accepts 'slalom'
+    - `run_logs.mode` also accepts 'slalom'
+
+  5. Changed Functions
+    - `claim_guest_scores(client_id)` claims the browser's slalom times too
+
+  6. Security
+    - Anyone can read slalom times; inserts only go through the function
+*/
+
+CREATE TABLE IF NOT EXISTS slalom_times (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course text NOT NULL CHECK (course ~ '^(seed|file):[0-9A-Fa-f]{1,16}$'),
+  name text NOT NULL CHECK (char_length(name) <= 3),
+  time_ms integer NOT NULL CHECK (time_ms > 0),
+  time integer GENERATED ALWAYS AS (time_ms / 1000) STORED,
+  seed bigint NOT NULL,
+  replay jsonb,
+  has_replay boolean GENERATED ALWAYS AS (replay IS NOT NULL) STORED,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE slalom_times ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read slalom times"
+  ON slalom_times
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE INDEX slalom_times_course_idx ON slalom_times (course, time_ms ASC, created_at ASC);
+CREATE INDEX slalom_times_user_idx ON slalom_times (user_id, course, time_ms ASC);
+
+CREATE OR REPLACE VIEW slalom_times_top
+  WITH (security_invoker = true)
+AS
+  SELECT *
+  FROM (
+    SELECT
+      id, course, name, time_ms AS score, time, seed, has_replay, created_at,
+      row_number() OVER (PARTITION BY course ORDER BY time_ms ASC, created_at ASC) AS rank,
+      user_id
+    FROM slalom_times
+  ) ranked
+  WHERE rank <= 10;
+
+CREATE OR REPLACE FUNCTION slalom_times_qualifies(p_time_ms integer, p_course text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*) < 10 OR p_time_ms < max(time_ms)
+  FROM (SELECT time_ms FROM slalom_times WHERE course = p_course ORDER BY time_ms ASC LIMIT 10) top;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_slalom_time(
+  p_name text,
+  p_time_ms integer,
+  p_seed bigint,
+  p_course text,
+  p_replay jsonb,
+  p_client_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same limits as validate_score_submission, counted together with scores
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_name IS NULL OR v_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Course layouts vary too much to derive a fastest possible time, so this
+  -- is only a sanity bound; the replay reproduces the run
+  IF p_time_ms IS NULL OR p_time_ms < 1000 OR p_time_ms > 86400000 THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR p_replay ->> 'mode' IS DISTINCT FROM 'slalom'
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+
+  INSERT INTO slalom_times (course, name, time_ms, seed, replay, user_id)
+  VALUES (p_course, v_name, p_time_ms, p_seed, p_replay, v_user)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'slalom', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Same shape as the other standings, with the time in `score`
+CREATE OR REPLACE FUNCTION slalom_times_standing(p_course text)
+RETURNS TABLE (id uuid, score integer, time integer, created_at timestamptz, rank bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    best.id, best.time_ms, best.time, best.created_at,
+    (
+      SELECT count(*) + 1 FROM slalom_times s
+      WHERE s.course = p_course
+        AND (s.time_ms < best.time_ms OR (s.time_ms = best.time_ms AND s.created_at < best.created_at))
+    ) AS rank
+  FROM (
+    SELECT * FROM slalom_times
+    WHERE user_id = auth.uid() AND course = p_course
+    ORDER BY time_ms ASC, created_at ASC
+    LIMIT 1
+  ) best;
+$$;
+
+ALTER TABLE guest_scores DROP CONSTRAINT IF EXISTS guest_scores_board_check;
+ALTER TABLE guest_scores ADD CONSTRAINT guest_scores_board_check
+  CHECK (board IN ('all-time', 'daily', 'slalom'));
+
+ALTER TABLE run_logs DROP CONSTRAINT IF EXISTS run_logs_mode_check;
+ALTER TABLE run_logs ADD CONSTRAINT run_logs_mode_check
+  CHECK (mode IN ('endless', 'daily', 'slalom'));
+
+CREATE OR REPLACE FUNCTION claim_guest_scores(p_client_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_initials text;
+  v_claimed integer;
+  v_claimed_daily integer;
+  v_claimed_slalom integer;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim scores' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT initials INTO v_initials FROM profiles WHERE id = v_user;
+
+  UPDATE leaderboard l
+  SET user_id = v_user, name = coalesce(v_initials, l.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'all-time' AND g.score_id = l.id AND l.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  UPDATE daily_leaderboard d
+  SET user_id = v_user, name = coalesce(v_initials, d.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'daily' AND g.score_id = d.id AND d.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed_daily = ROW_COUNT;
+
+  UPDATE slalom_times s
+  SET user_id = v_user, name = coalesce(v_initials, s.name)
+  FROM guest_scores g
+  WHERE g.client_id = p_client_id AND g.board = 'slalom' AND g.score_id = s.id AND s.user_id IS NULL;
+  GET DIAGNOSTICS v_claimed_slalom = ROW_COUNT;
+
+  DELETE FROM guest_scores WHERE client_id = p_client_id;
+
+  -- Run logs carry their client id, so the guest history comes along
+  UPDATE run_logs SET user_id = v_user WHERE client_id = p_client_id AND user_id IS NULL;
+
+  RETURN v_claimed + v_claimed_daily + v_claimed_slalom;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION slalom_times_qualifies(integer, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_slalom_time(text, integer, bigint, text, jsonb, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION slalom_times_standing(text) TO anon, authenticated;
@@ -0,0 +1,358 @@
+/*
+  # Difficulty presets
+
+  Runs are now skied on Easy, Normal or Hard (src/lib/difficulty.ts). The
+  presets change how fast the skier speeds up, so the score a run of a given
+  length produces depends on its difficulty, and every score records the one
+  it was set on. The boards stay shared and show it next to each entry.
+
+  1. Changed Tables
+    - `leaderboard`, `daily_leaderboard`, `slalom_times`
+      - `difficulty` (text, 'easy' | 'normal' | 'hard') – existing scores
+        were all set on normal
+
+  2. New Functions
+    - `expected_score_for_time(seconds, difficulty)` – as before, for the
+      difficulty's speed ramp. Normal matches the one-argument version
+    - `max_skill_bonus_for_time(seconds, difficulty)` – Hard packs the slope
+      tighter at a higher top speed, so more obstacles go past each second
+
+  3. Changed Functions
+    - `validate_score_submission(...)` takes the difficulty, checks the score
+      against its speed ramp and that the replay was recorded on it
+    - `submit_score`, `submit_daily_score`, `submit_slalom_time` take
+      `p_difficulty` (default 'normal', so older clients keep working)
+
+  4. Changed Views
+    - `leaderboard_top`, `daily_leaderboard_top`, `daily_winners` and
+      `slalom_times_top` expose `difficulty`
+*/
+
+ALTER TABLE leaderboard
+  ADD COLUMN IF NOT EXISTS difficulty text NOT NULL DEFAULT 'normal'
+  CHECK (difficulty IN ('easy', 'normal', 'hard'));
+
+ALTER TABLE daily_leaderboard
+  ADD COLUMN IF NOT EXISTS difficulty text NOT NULL DEFAULT 'normal'
+  CHECK (difficulty IN ('easy', 'normal', 'hard'));
+
+ALTER TABLE slalom_times
+  ADD COLUMN IF NOT EXISTS difficulty text NOT NULL DEFAULT 'normal'
+  CHECK (difficulty IN ('easy', 'normal', 'hard'));
+
+-- Speed starts at start_speed, gains per_second each second and holds at
+-- max_speed; score grows at 10 * speed per second. Mirrors the `speed` of
+-- each preset in DIFFICULTY_PROFILES. Null for an unknown difficulty
+CREATE OR REPLACE FUNCTION expected_score_for_time(p_seconds numeric, p_difficulty text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10 * CASE
+    WHEN p_seconds <= ramp_time THEN start_speed * p_seconds + per_second * p_seconds * p_seconds / 2
+    ELSE start_speed * ramp_time + per_second * ramp_time * ramp_time / 2 + max_speed * (p_seconds - ramp_time)
+  END
+  FROM (
+    SELECT start_speed, per_second, max_speed, (max_speed - start_speed) / per_second AS ramp_time
+    FROM (
+      VALUES ('easy', 0.8, 0.006, 2.5), ('normal', 1, 0.01, 3), ('hard', 1.2, 0.015, 3.5)
+    ) AS presets (difficulty, start_speed, per_second, max_speed)
+    WHERE difficulty = p_difficulty
+  ) ramp;
+$$;
+
+CREATE OR REPLACE FUNCTION max_skill_bonus_for_time(p_seconds numeric, p_difficulty text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT max_skill_bonus_for_time(p_seconds) * CASE WHEN p_difficulty = 'hard' THEN 2.5 ELSE 1 END;
+$$;
+
+DROP FUNCTION IF EXISTS submit_score(text, integer, integer, bigint, jsonb, uuid);
+DROP FUNCTION IF EXISTS submit_daily_score(text, integer, integer, bigint, date, jsonb, uuid);
+DROP FUNCTION IF EXISTS submit_slalom_time(text, integer, bigint, text, jsonb, uuid);
+DROP FUNCTION IF EXISTS validate_score_submission(text, integer, integer, bigint, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION validate_score_submission(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Rate limit before doing anything else. A failed check rolls the whole call
+  -- back, so only accepted submissions are counted
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_name IS NULL OR p_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Checked before the score, which can't be judged without it
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time IS NULL OR p_time < 0 OR p_time > 86400 THEN
+    RAISE EXCEPTION 'Run time % is out of range', p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Both values are floored by the client, so the real run lasted between
+  -- p_time and p_time + 1 seconds. Skill bonuses only ever add to the base score
+  IF p_score IS NULL
+    OR p_score < floor(expected_score_for_time(p_time, p_difficulty)) - 1
+    OR p_score > ceil(
+      expected_score_for_time(p_time + 1, p_difficulty) + max_skill_bonus_for_time(p_time + 1, p_difficulty)
+    ) THEN
+    RAISE EXCEPTION 'Score % is not possible in % seconds', p_score, p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Replays from before the presets don't say, and were skied on normal
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+BEGIN
+  PERFORM validate_score_submission(v_name, p_score, p_time, p_seed, p_replay, p_client_id, p_difficulty);
+
+  INSERT INTO leaderboard (name, score, time, seed, replay, user_id, difficulty)
+  VALUES (v_name, p_score, p_time, p_seed, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'all-time', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_daily_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_day date,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_today date := (now() AT TIME ZONE 'utc')::date;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+BEGIN
+  PERFORM validate_score_submission(v_name, p_score, p_time, p_seed, p_replay, p_client_id, p_difficulty);
+
+  -- Allow yesterday too, so a run that straddles midnight still counts
+  IF p_day IS NULL OR p_day NOT BETWEEN v_today - 1 AND v_today THEN
+    RAISE EXCEPTION 'The challenge for % is closed', p_day USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO daily_leaderboard (name, score, time, seed, day, replay, user_id, difficulty)
+  VALUES (v_name, p_score, p_time, p_seed, p_day, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'daily', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_slalom_time(
+  p_name text,
+  p_time_ms integer,
+  p_seed bigint,
+  p_course text,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same limits as validate_score_submission, counted together with scores
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_name IS NULL OR v_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Course layouts vary too much to derive a fastest possible time, so this
+  -- is only a sanity bound; the replay reproduces the run
+  IF p_time_ms IS NULL OR p_time_ms < 1000 OR p_time_ms > 86400000 THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR p_replay ->> 'mode' IS DISTINCT FROM 'slalom'
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+
+  INSERT INTO slalom_times (course, name, time_ms, seed, replay, user_id, difficulty)
+  VALUES (p_course, v_name, p_time_ms, p_seed, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'slalom', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Appending columns keeps CREATE OR REPLACE possible
+CREATE OR REPLACE VIEW leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT
+    id, name, score, time, seed, has_replay, created_at,
+    row_number() OVER (ORDER BY score DESC, created_at ASC) AS rank,
+    user_id, difficulty
+  FROM leaderboard
+  ORDER BY score DESC, created_at ASC
+  LIMIT 10;
+
+CREATE OR REPLACE VIEW daily_leaderboard_top
+  WITH (security_invoker = true)
+AS
+  SELECT *
+  FROM (
+    SELECT
+      id, day, name, score, time, seed, has_replay, created_at,
+      row_number() OVER (PARTITION BY day ORDER BY score DESC, created_at ASC) AS rank,
+      user_id, difficulty
+    FROM daily_leaderboard
+  ) ranked
+  WHERE rank <= 10;
+
+-- Re-created so its * picks up the new column
+CREATE OR REPLACE VIEW daily_winners
+  WITH (security_invoker = true)
+AS
+  SELECT * FROM daily_leaderboard_top WHERE rank = 1;
+
+CREATE OR REPLACE VIEW slalom_times_top
+  WITH (security_invoker = true)
+AS
+  SELECT *
+  FROM (
+    SELECT
+      id, course, name, time_ms AS score, time, seed, has_replay, created_at,
+      row_number() OVER (PARTITION BY course ORDER BY time_ms ASC, created_at ASC) AS rank,
+      user_id, difficulty
+    FROM slalom_times
+  ) ranked
+  WHERE rank <= 10;
+
+REVOKE ALL ON FUNCTION validate_score_submission(text, integer, integer, bigint, jsonb, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_score(text, integer, integer, bigint, jsonb, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_daily_score(text, integer, integer, bigint, date, jsonb, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_slalom_time(text, integer, bigint, text, jsonb, uuid, text) TO anon, authenticated;
@@ -0,0 +1,17 @@
+/*
+  # Moving hazards
+
+  Other skiers, snowmobiles, avalanche debris and chairlifts now share the
+  slope, and any of them can end a run.
+
+  1. Changed Tables
+    - `run_logs.crash_cause` also accepts 'skier', 'snowmobile', 'debris' and
+      'chairlift'
+*/
+
+ALTER TABLE run_logs DROP CONSTRAINT IF EXISTS run_logs_crash_cause_check;
+ALTER TABLE run_logs ADD CONSTRAINT run_logs_crash_cause_check
+  CHECK (crash_cause IN (
+    'tree', 'rock', 'bump', 'pole', 'ramp', 'yeti', 'landing',
+    'skier', 'snowmobile', 'debris', 'chairlift'
+  ));
@@ -0,0 +1,128 @@
+/*
+  # Slope physics
+
+  The skier's speed now comes from the slope (src/lib/movement.ts): tucking
+  speeds them up past the old top speed, and carving and snowplowing slow them
+  down. A run's score no longer follows a fixed speed ramp, so it's checked
+  against the slowest and fastest the skier can go instead.
+
+  1. New Functions
+    - `min_score_for_time(seconds)` – the score of a run held at the slowest
+      a snowplow allows the whole way
+    - `max_score_for_time(seconds, difficulty)` – the score of a run tucked
+      from the start line, speeding up as fast as possible to the tucked top
+      speed. Null for an unknown difficulty
+
+  2. Changed Functions
+    - `validate_score_submission(...)` checks the score between the two
+*/
+
+-- MIN_SPEED in movement.ts; score grows at 10 * speed per second
+CREATE OR REPLACE FUNCTION min_score_for_time(p_seconds numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10 * 0.4 * p_seconds;
+$$;
+
+-- As expected_score_for_time, with TUCK_ACCEL (0.03) added to each preset's
+-- per_second and max_speed raised by TUCK_TOP (1.2)
+CREATE OR REPLACE FUNCTION max_score_for_time(p_seconds numeric, p_difficulty text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10 * CASE
+    WHEN p_seconds <= ramp_time THEN start_speed * p_seconds + per_second * p_seconds * p_seconds / 2
+    ELSE start_speed * ramp_time + per_second * ramp_time * ramp_time / 2 + max_speed * (p_seconds - ramp_time)
+  END
+  FROM (
+    SELECT start_speed, per_second, max_speed, (max_speed - start_speed) / per_second AS ramp_time
+    FROM (
+      VALUES ('easy', 0.8, 0.036, 3.0), ('normal', 1, 0.04, 3.6), ('hard', 1.2, 0.045, 4.2)
+    ) AS presets (difficulty, start_speed, per_second, max_speed)
+    WHERE difficulty = p_difficulty
+  ) ramp;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_score_submission(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Rate limit before doing anything else. A failed check rolls the whole call
+  -- back, so only accepted submissions are counted
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_name IS NULL OR p_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Checked before the score, which can't be judged without it
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time IS NULL OR p_time < 0 OR p_time > 86400 THEN
+    RAISE EXCEPTION 'Run time % is out of range', p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Both values are floored by the client, so the real run lasted between
+  -- p_time and p_time + 1 seconds. Skill bonuses only ever add to the base score
+  IF p_score IS NULL
+    OR p_score < floor(min_score_for_time(p_time)) - 1
+    OR p_score > ceil(
+      max_score_for_time(p_time + 1, p_difficulty) + max_skill_bonus_for_time(p_time + 1, p_difficulty)
+    ) THEN
+    RAISE EXCEPTION 'Score % is not possible in % seconds', p_score, p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Replays from before the presets don't say, and were skied on normal
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION validate_score_submission(text, integer, integer, bigint, jsonb, uuid, text) FROM public, anon, authenticated;
@@ -0,0 +1,39 @@
+/*
+  # Skill bonus ceiling from the scoring rules
+
+  `max_skill_bonus_for_time` was a flat allowance per second, doubled for
+  tricks and raised again for Hard, and let a short run claim far more than it
+  could have earned. It's now worked out from what the slope can pay over the
+  distance a run can cover in that time (src/lib/scoring.ts, pickups.ts and
+  tricks.ts), so it tightens with the run's length and follows each preset's
+  speed instead of a multiplier.
+
+  1. Changed Functions
+    - `max_skill_bonus_for_time(seconds, difficulty)` – the most the obstacle
+      rows within reach, the pickups among them and back-to-back tricks can
+      pay. Null for an unknown difficulty
+
+  2. Removed Functions
+    - `max_skill_bonus_for_time(seconds)` – no longer used
+*/
+
+-- Each obstacle row (15 apart, cells 8 apart across) pays at most two near
+-- misses either side of the skier and the thread between them, at
+-- MAX_MULTIPLIER: (2 * 25 + 100) * 5 = 750. Add the coins or a flag (100 a
+-- cell) in the four cells a coin magnet reaches: 400.
+-- The skier covers 4 units of slope per point of base score (FORWARD_SPEED 40
+-- against 10 points a second at 1x), so max_score_for_time gives the furthest
+-- a run can get; jitter can bring one more row into reach.
+-- A hop is the shortest jump, 2 * 22 / 50 = 0.88s in the air. It fits one full
+-- spin (150) and a grab held the whole way (50 + 100 * 0.88), at
+-- MAX_MULTIPLIER: 1440 points every 0.88s, under 1640 a second. Longer jumps
+-- pay less for their airtime.
+CREATE OR REPLACE FUNCTION max_skill_bonus_for_time(p_seconds numeric, p_difficulty text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (4 * max_score_for_time(p_seconds, p_difficulty) / 15 + 1) * (750 + 400) + 1640 * p_seconds;
+$$;
+
+DROP FUNCTION IF EXISTS max_skill_bonus_for_time(numeric);
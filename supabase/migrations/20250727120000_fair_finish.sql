@@ -0,0 +1,142 @@
+/*
+  # Fastest possible slalom time
+
+  `submit_slalom_time` took any finish time over a second, so a made-up time
+  could top a course's board. A run can't beat skiing straight down to the
+  finish line tucked the whole way, so times faster than that are now
+  rejected on the difficulty they were set on.
+
+  1. New Functions
+    - `min_time_for_distance(distance, difficulty)` – the seconds a run tucked
+      from the start line takes to cover that much slope; the inverse of
+      `max_score_for_time`. Null for an unknown difficulty
+
+  2. Changed Functions
+    - `submit_slalom_time(...)` checks the time against the course's finish
+      line: 1510 down for a generated course, or the `finishZ` of the course
+      file in the replay, which a course file run now needs
+*/
+
+-- As max_score_for_time, solved for the time: the skier covers FORWARD_SPEED
+-- (40) units a second at 1x, 4 units per point of base score
+CREATE OR REPLACE FUNCTION min_time_for_distance(p_distance numeric, p_difficulty text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN distance <= ramp_distance THEN (sqrt(start_speed * start_speed + 2 * per_second * distance) - start_speed) / per_second
+    ELSE ramp_time + (distance - ramp_distance) / max_speed
+  END
+  FROM (
+    SELECT start_speed, per_second, max_speed, ramp_time,
+      greatest(0, p_distance) / 40 AS distance,
+      start_speed * ramp_time + per_second * ramp_time * ramp_time / 2 AS ramp_distance
+    FROM (
+      SELECT start_speed, per_second, max_speed, (max_speed - start_speed) / per_second AS ramp_time
+      FROM (
+        VALUES ('easy', 0.8, 0.036, 3.0), ('normal', 1, 0.04, 3.6), ('hard', 1.2, 0.045, 4.2)
+      ) AS presets (difficulty, start_speed, per_second, max_speed)
+      WHERE difficulty = p_difficulty
+    ) ramp
+  ) run;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_slalom_time(
+  p_name text,
+  p_time_ms integer,
+  p_seed bigint,
+  p_course text,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+  v_finish_distance numeric;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same limits as validate_score_submission, counted together with scores
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_name IS NULL OR v_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time_ms IS NULL OR p_time_ms > 86400000 THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR p_replay ->> 'mode' IS DISTINCT FROM 'slalom'
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Generated courses all finish FIRST_GATE_Z + 19 * GATE_SPACING +
+  -- FINISH_DISTANCE down the slope (slalom.ts); a course file says where its
+  -- finish line is
+  v_finish_distance := CASE
+    WHEN p_course LIKE 'seed:%' THEN 100 + 19 * 70 + 80
+    WHEN jsonb_typeof(p_replay -> 'course' -> 'finishZ') = 'number' THEN -(p_replay -> 'course' ->> 'finishZ')::numeric
+  END;
+
+  IF v_finish_distance IS NULL OR v_finish_distance <= 0 THEN
+    RAISE EXCEPTION 'A course file run needs its replay' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Tucked straight down to the finish line from the start, with a second's
+  -- slack as the score checks allow
+  IF p_time_ms < 1000 * (min_time_for_distance(v_finish_distance, p_difficulty) - 1) THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+
+  INSERT INTO slalom_times (course, name, time_ms, seed, replay, user_id, difficulty)
+  VALUES (p_course, v_name, p_time_ms, p_seed, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'slalom', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
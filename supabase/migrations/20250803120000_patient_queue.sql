@@ -0,0 +1,194 @@
+/*
+  # Rate limit as its own error
+
+  The score functions turned away a client submitting too often with the same
+  generic error code as a rejected score, so the game couldn't tell "try again
+  later" from "this score isn't possible" and dropped queued offline scores
+  that ran into the limit. The limit now raises SQLSTATE PT429, which
+  PostgREST answers with HTTP 429 Too Many Requests, and the game keeps the
+  score queued until it goes through.
+
+  1. Changed Functions
+    - `validate_score_submission(...)` and `submit_slalom_time(...)` raise
+      PT429 when a client or address is over the hourly limit
+*/
+
+CREATE OR REPLACE FUNCTION validate_score_submission(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Rate limit before doing anything else. A failed check rolls the whole call
+  -- back, so only accepted submissions are counted
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'PT429';
+  END IF;
+
+  IF p_name IS NULL OR p_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Checked before the score, which can't be judged without it
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time IS NULL OR p_time < 0 OR p_time > 86400 THEN
+    RAISE EXCEPTION 'Run time % is out of range', p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Both values are floored by the client, so the real run lasted between
+  -- p_time and p_time + 1 seconds. Skill bonuses only ever add to the base score
+  IF p_score IS NULL
+    OR p_score < floor(min_score_for_time(p_time)) - 1
+    OR p_score > ceil(
+      max_score_for_time(p_time + 1, p_difficulty) + max_skill_bonus_for_time(p_time + 1, p_difficulty)
+    ) THEN
+    RAISE EXCEPTION 'Score % is not possible in % seconds', p_score, p_time USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Replays from before the presets don't say, and were skied on normal
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION validate_score_submission(text, integer, integer, bigint, jsonb, uuid, text) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_slalom_time(
+  p_name text,
+  p_time_ms integer,
+  p_seed bigint,
+  p_course text,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+  v_ip text := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_recent_client integer;
+  v_recent_ip integer;
+  v_finish_distance numeric;
+BEGIN
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'A client id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same limits as validate_score_submission, counted together with scores
+  SELECT count(*) INTO v_recent_client
+  FROM score_submissions
+  WHERE client_id = p_client_id AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_recent_ip
+  FROM score_submissions
+  WHERE v_ip <> '' AND ip = v_ip AND created_at > now() - interval '1 hour';
+
+  IF v_recent_client >= 10 OR v_recent_ip >= 60 THEN
+    RAISE EXCEPTION 'Too many score submissions, try again later' USING ERRCODE = 'PT429';
+  END IF;
+
+  IF v_name IS NULL OR v_name !~ '^[A-Z0-9]{1,3}$' THEN
+    RAISE EXCEPTION 'Name must be 1-3 letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'normal', 'hard') THEN
+    RAISE EXCEPTION 'Unknown difficulty %', p_difficulty USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_time_ms IS NULL OR p_time_ms > 86400000 THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_seed IS NULL OR p_seed < 0 OR p_seed > 4294967295 THEN
+    RAISE EXCEPTION 'Seed is out of range' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_replay IS NOT NULL AND (
+    pg_column_size(p_replay) > 262144
+    OR (p_replay ->> 'seed')::bigint IS DISTINCT FROM p_seed
+    OR p_replay ->> 'mode' IS DISTINCT FROM 'slalom'
+    OR coalesce(p_replay ->> 'difficulty', 'normal') IS DISTINCT FROM p_difficulty
+  ) THEN
+    RAISE EXCEPTION 'Replay does not match this run' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Generated courses all finish FIRST_GATE_Z + 19 * GATE_SPACING +
+  -- FINISH_DISTANCE down the slope (slalom.ts); a course file says where its
+  -- finish line is
+  v_finish_distance := CASE
+    WHEN p_course LIKE 'seed:%' THEN 100 + 19 * 70 + 80
+    WHEN jsonb_typeof(p_replay -> 'course' -> 'finishZ') = 'number' THEN -(p_replay -> 'course' ->> 'finishZ')::numeric
+  END;
+
+  IF v_finish_distance IS NULL OR v_finish_distance <= 0 THEN
+    RAISE EXCEPTION 'A course file run needs its replay' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Tucked straight down to the finish line from the start, with a second's
+  -- slack as the score checks allow
+  IF p_time_ms < 1000 * (min_time_for_distance(v_finish_distance, p_difficulty) - 1) THEN
+    RAISE EXCEPTION 'Finish time % is out of range', p_time_ms USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO score_submissions (client_id, ip) VALUES (p_client_id, nullif(v_ip, ''));
+
+  INSERT INTO slalom_times (course, name, time_ms, seed, replay, user_id, difficulty)
+  VALUES (p_course, v_name, p_time_ms, p_seed, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'slalom', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
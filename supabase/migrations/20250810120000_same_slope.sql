@@ -0,0 +1,79 @@
+/*
+  # Daily scores on the day's slope only
+
+  `submit_daily_score` checked the day a run was for but took whatever seed
+  the client sent, so a run on any slope could go on that day's board. The
+  server now works out each day's seed the same way the game does
+  (getDailySeed in src/lib/daily.ts) and turns away runs on any other.
+
+  1. New Functions
+    - `daily_seed(day)` – the seed of that day's challenge slope
+
+  2. Changed Functions
+    - `submit_daily_score(...)` rejects a seed that isn't `daily_seed(p_day)`
+*/
+
+-- FNV-1a over 'vibeskiing-daily:YYYY-MM-DD' (hashString in src/lib/random.ts;
+-- deriveSeed with no salts leaves it as it is). The day key is plain ASCII, so
+-- each character is one byte. daily_seed('2025-08-03') = 1786172376
+CREATE OR REPLACE FUNCTION daily_seed(p_day date)
+RETURNS bigint
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key text := 'vibeskiing-daily:' || to_char(p_day, 'YYYY-MM-DD');
+  v_hash bigint := 2166136261;
+BEGIN
+  FOR i IN 1..length(v_key) LOOP
+    v_hash := ((v_hash # ascii(substr(v_key, i, 1))) * 16777619) % 4294967296;
+  END LOOP;
+  RETURN v_hash;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_daily_score(
+  p_name text,
+  p_score integer,
+  p_time integer,
+  p_seed bigint,
+  p_day date,
+  p_replay jsonb,
+  p_client_id uuid,
+  p_difficulty text DEFAULT 'normal'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_today date := (now() AT TIME ZONE 'utc')::date;
+  v_user uuid := auth.uid();
+  v_name text := coalesce((SELECT initials FROM profiles WHERE id = v_user), p_name);
+BEGIN
+  PERFORM validate_score_submission(v_name, p_score, p_time, p_seed, p_replay, p_client_id, p_difficulty);
+
+  -- Allow yesterday too, so a run that straddles midnight still counts
+  IF p_day IS NULL OR p_day NOT BETWEEN v_today - 1 AND v_today THEN
+    RAISE EXCEPTION 'The challenge for % is closed', p_day USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Everyone skis the same slope on the same day
+  IF p_seed IS DISTINCT FROM daily_seed(p_day) THEN
+    RAISE EXCEPTION 'Seed % is not the challenge slope for %', p_seed, p_day USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO daily_leaderboard (name, score, time, seed, day, replay, user_id, difficulty)
+  VALUES (v_name, p_score, p_time, p_seed, p_day, p_replay, v_user, p_difficulty)
+  RETURNING id INTO v_id;
+
+  IF v_user IS NULL THEN
+    INSERT INTO guest_scores (score_id, board, client_id) VALUES (v_id, 'daily', p_client_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+